@@ -1,11 +1,11 @@
 import { build } from 'esbuild';
 
 const config = {
-  entryPoints: ['src/index.ts'],
+  entryPoints: ['src/index.ts', 'src/cli.ts'],
   bundle: true,
   platform: 'node',
   target: 'node18',
-  outfile: 'dist/index.js',
+  outdir: 'dist',
   sourcemap: true,
   external: [
     '@storyblok/management-api-client',
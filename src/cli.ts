@@ -0,0 +1,222 @@
+#!/usr/bin/env node
+import path from "path";
+import { Command } from "commander";
+import * as CONSTANTS from "./constants";
+import { getLogLevel, LogLevel, Tracer } from "./context/Tracer";
+import { GenerationContext } from "./context/GenerationContext";
+import { validateCLIOptions, validateMockOptions, ValidationError } from "./validation";
+import type { CLIOptions } from "./validation";
+import { findConfigFile, loadConfigFile } from "./functions/configLoader";
+import { convertSpace } from "./functions/conversionPipeline";
+import { checkFinalOutput, generateFinalOutput } from "./functions/outputGenerator";
+import { handleError } from "./functions/errorHandler";
+import { watchSpace } from "./functions/watchMode";
+import { fetchSpace } from "./functions/spaceFetcher";
+import { diffComponentSnapshots, formatDiffReport, loadComponentSnapshot } from "./functions/componentDiff";
+import { writeMockFixtures } from "./functions/mockGenerator";
+
+const program = new Command();
+program
+  .name("storyblok-to-zod")
+  .description("Generates a Zod schema from your Storyblok components")
+  .option("-s, --space <storyblokSpaceId>", "Storyblok space ID")
+  .option("-c, --config <filePath>", `path to the configuration file, defaults to ${CONSTANTS.CONFIG_FILE_NAMES[0]}`)
+  .option("-o, --output <filePath>", "output to file")
+  .option("--out-dir <dirPath>", "output to a directory, with one file per component and an index.ts barrel")
+  .option("-f, --folder <folderPath>", "path to the folder containing Storyblok components", CONSTANTS.DEFAULT_FOLDER)
+  .option("-v, --verbose", "show verbose information")
+  .option("-d, --debug", "show debug information")
+  .option("--no-extends-array", "will not automatically convert StoryblokMultiasset's interface definition")
+  .option("--no-types", "will not export TypeScript types inferred from the generated schemas")
+  .option(
+    "--zod-import <module>",
+    `module to import Zod from (${CONSTANTS.SUPPORTED_ZOD_IMPORTS.join(", ")})`,
+    CONSTANTS.DEFAULT_ZOD_IMPORT
+  )
+  .option("--zod-version <major>", "major version of Zod to target (3 or 4), defaults to the version of the module")
+  .option(
+    "--format <format>",
+    `format of the output (${CONSTANTS.SUPPORTED_OUTPUT_FORMATS.join(", ")})`,
+    CONSTANTS.DEFAULT_OUTPUT_FORMAT
+  )
+  .option("-w, --watch", "regenerate the schemas whenever the pulled files or the configuration file change")
+  .option("--check", "exit with an error and print a diff if the output file is not up to date, without writing it")
+  .option(
+    "--fetch",
+    `fetch the components and datasources with the Management API, using the ${CONSTANTS.FETCH_TOKEN_ENV_VAR} token`
+  )
+  .option("--region <region>", `region of the Management API (${CONSTANTS.SUPPORTED_REGIONS.join(", ")})`)
+  .option("--api-base-url <url>", "URL of the Management API, overriding the region")
+  .option("--locales <locales>", "comma separated locales of the translation keys added to translatable fields")
+  .option(
+    "--resolve-relations <relations>",
+    "comma separated relations (<component>.<field>) resolved to stories, as passed to resolve_relations"
+  );
+
+program
+  .command("diff")
+  .description("reports the changes between two snapshots of the components, failing on breaking changes")
+  .argument("<before>", "components folder or git ref of the old components")
+  .argument("[after]", "components folder or git ref of the new components, defaults to the pulled components")
+  .action(diff);
+
+program
+  .command("mock")
+  .description("generates deterministic mock bloks of components, written as JSON fixtures")
+  .argument("<components...>", "names of the components to mock")
+  .option(
+    "--seed <seed>",
+    "seed of the generated values, the same seed always giving the same mocks",
+    CONSTANTS.DEFAULT_MOCK_SEED
+  )
+  .option(
+    "--depth <depth>",
+    "nesting depth of bloks beyond which only required fields are generated",
+    String(CONSTANTS.DEFAULT_MOCK_DEPTH)
+  )
+  .option("--fixtures-dir <dirPath>", "folder to write the fixtures to", CONSTANTS.DEFAULT_FIXTURES_FOLDER)
+  .action(mock);
+
+/**
+ * Returns the path of the configuration file given with --config or found in the working directory, if any
+ */
+async function getConfigPath(): Promise<string | undefined> {
+  return program.opts().config ?? (await findConfigFile(process.cwd()));
+}
+
+/**
+ * Resolves the options from the command line and the configuration file
+ *
+ * @throws {ValidationError} When the options or the configuration file are invalid
+ * @throws {FileOperationError} When the configuration file cannot be loaded
+ */
+async function resolveOptions(configPath: string | undefined): Promise<CLIOptions> {
+  const rawOptions = program.opts();
+  const config = configPath ? await loadConfigFile(configPath) : {};
+
+  // Command line options take precedence over the configuration file, which takes precedence over defaults
+  const cliOptions = Object.fromEntries(
+    Object.entries(rawOptions).filter(([name]) => program.getOptionValueSource(name) === "cli")
+  );
+
+  return validateCLIOptions({ ...rawOptions, ...config, ...cliOptions });
+}
+
+/**
+ * Main execution function with comprehensive error handling
+ */
+async function main(): Promise<void> {
+  const rawOptions = program.opts();
+
+  try {
+    const configPath = await getConfigPath();
+    const options = await resolveOptions(configPath);
+
+    if (rawOptions.watch && options.check) {
+      throw new ValidationError("Invalid CLI options: Options --watch and --check cannot be used together");
+    }
+
+    if (options.fetch) {
+      // Fetched once: in watch mode, the fetched files are then watched like pulled ones
+      await fetchSpace(new GenerationContext(options, new Tracer(getLogLevel(options))));
+    }
+
+    if (rawOptions.watch) {
+      await watchSpace(options, {
+        // Without a configuration file yet, look for one created in the meantime
+        resolveOptions: async () => resolveOptions(configPath ?? (await findConfigFile(process.cwd()))),
+        configPath,
+      });
+      return;
+    }
+
+    const logLevel = getLogLevel(options);
+    const context = new GenerationContext(options, new Tracer(logLevel));
+
+    if (logLevel >= LogLevel.VERBOSE) {
+      context.tracer.log(LogLevel.VERBOSE, `Log level set to ${LogLevel[logLevel]}`);
+    }
+
+    if (configPath) {
+      context.tracer.log(LogLevel.VERBOSE, `Using configuration file: ${configPath}`);
+    }
+
+    context.tracer.log(LogLevel.VERBOSE, `Starting conversion for space: ${options.space}`);
+    context.tracer.log(LogLevel.DEBUG, `Options: ${JSON.stringify(options, null, 2)}`);
+
+    if (!(await convertSpace(context))) {
+      return;
+    }
+
+    if (options.check) {
+      if (!(await checkFinalOutput(context))) {
+        process.exitCode = 1;
+      }
+      return;
+    }
+
+    // Generate final output
+    await generateFinalOutput(context);
+  } catch (error) {
+    await handleError(error, Boolean(rawOptions.debug));
+  }
+}
+
+/**
+ * Compares two snapshots of the components, exiting with an error if there are breaking changes
+ *
+ * @param before - Components folder or git ref of the old components
+ * @param after - Components folder or git ref of the new components, defaults to the pulled components
+ */
+async function diff(before: string, after: string | undefined): Promise<void> {
+  const rawOptions = program.opts();
+
+  try {
+    const options = await resolveOptions(await getConfigPath());
+
+    // Each snapshot gets its own context, as component groups and tags are resolved per snapshot
+    const createContext = (): GenerationContext => new GenerationContext(options, new Tracer(getLogLevel(options)));
+    const beforeSnapshot = await loadComponentSnapshot(before, createContext());
+    const afterSnapshot = await loadComponentSnapshot(
+      after ?? path.join(options.folder, "components", options.space),
+      createContext()
+    );
+
+    const changes = diffComponentSnapshots(beforeSnapshot, afterSnapshot);
+    console.log(formatDiffReport(changes));
+
+    if (changes.some((change) => change.breaking)) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    await handleError(error, Boolean(rawOptions.debug));
+  }
+}
+
+/**
+ * Generates mock bloks of components and writes them as JSON fixtures
+ *
+ * @param componentNames - Names of the components to mock
+ * @param commandOptions - Options of the mock command
+ */
+async function mock(componentNames: string[], commandOptions: Record<string, unknown>): Promise<void> {
+  const rawOptions = program.opts();
+
+  try {
+    const options = await resolveOptions(await getConfigPath());
+    const mockOptions = validateMockOptions(commandOptions);
+
+    const context = new GenerationContext(options, new Tracer(getLogLevel(options)));
+    if (!(await convertSpace(context))) {
+      return;
+    }
+
+    await writeMockFixtures(componentNames, mockOptions, context);
+  } catch (error) {
+    await handleError(error, Boolean(rawOptions.debug));
+  }
+}
+
+// Execute main function, unless a command is given
+program.action(main);
+program.parseAsync(process.argv).catch((error) => handleError(error));
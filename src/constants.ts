@@ -1,3 +1,35 @@
-export const FILE_HEADER = `// Generated by storyblok-to-zod\nimport { z } from 'astro/zod';`;
+export const FILE_HEADER_COMMENT = "// Generated by storyblok-to-zod";
 
 export const SB_INTERFACES_FILE = "storyblok.d.ts";
+
+export const DEFAULT_FOLDER = ".storyblok";
+
+/** Modules the generated code can import Zod from */
+export const SUPPORTED_ZOD_IMPORTS = ["astro/zod", "zod", "zod/v4", "zod/mini"];
+
+export const DEFAULT_ZOD_IMPORT = "astro/zod";
+
+/** Formats of the generated output */
+export const SUPPORTED_OUTPUT_FORMATS = ["zod", "json-schema", "typescript"];
+
+export const DEFAULT_OUTPUT_FORMAT = "zod";
+
+/** Configuration files discovered in the working directory, by order of precedence */
+export const CONFIG_FILE_NAMES = [
+  "storyblok-to-zod.config.json",
+  "storyblok-to-zod.config.ts",
+  "storyblok-to-zod.config.mjs",
+];
+
+/** Environment variable holding the personal access token used by --fetch */
+export const FETCH_TOKEN_ENV_VAR = "STORYBLOK_TOKEN";
+
+/** Regions of the Storyblok Management API */
+export const SUPPORTED_REGIONS = ["eu", "us", "ap", "ca", "cn"];
+
+/** Defaults of the mock command */
+export const DEFAULT_MOCK_SEED = "1";
+
+export const DEFAULT_MOCK_DEPTH = 3;
+
+export const DEFAULT_FIXTURES_FOLDER = "fixtures";
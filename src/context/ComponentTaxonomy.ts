@@ -0,0 +1,109 @@
+/**
+ * A registry of the component groups and tags of the space, of the components belonging to them, and of the content
+ * types and nestable components
+ */
+export class ComponentTaxonomy {
+  private groupParents = new Map<string, string | undefined>();
+  private tags = new Map<string, string>();
+  private componentGroups = new Map<string, string>();
+  private componentTags = new Map<string, string[]>();
+  private contentTypes = new Set<string>();
+  private nestableComponents = new Set<string>();
+
+  public addGroup(uuid: string, parentUuid?: string): void {
+    this.groupParents.set(uuid, parentUuid);
+  }
+
+  public hasGroup(uuid: string): boolean {
+    return this.groupParents.has(uuid);
+  }
+
+  public addTag(id: string, name: string): void {
+    this.tags.set(id, name);
+  }
+
+  public hasTag(id: string): boolean {
+    return this.tags.has(id);
+  }
+
+  public setComponentMembership(componentName: string, groupUuid: string | undefined, tagIds: string[]): void {
+    if (groupUuid) {
+      this.componentGroups.set(componentName, groupUuid);
+    } else {
+      this.componentGroups.delete(componentName);
+    }
+    this.componentTags.set(componentName, tagIds);
+  }
+
+  /** Records whether a component is a content type, i.e. can be the root of a story */
+  public setContentType(componentName: string, isContentType: boolean): void {
+    if (isContentType) {
+      this.contentTypes.add(componentName);
+    } else {
+      this.contentTypes.delete(componentName);
+    }
+  }
+
+  public getContentTypes(): string[] {
+    return Array.from(this.contentTypes);
+  }
+
+  /** Records whether a component is nestable, i.e. can be used as a blok in other components */
+  public setNestable(componentName: string, isNestable: boolean): void {
+    if (isNestable) {
+      this.nestableComponents.add(componentName);
+    } else {
+      this.nestableComponents.delete(componentName);
+    }
+  }
+
+  public getNestableComponents(): string[] {
+    return Array.from(this.nestableComponents);
+  }
+
+  /** Returns the components belonging to one of the given groups or to one of their sub-groups */
+  public getComponentsInGroups(groupUuids: string[]): string[] {
+    const components: string[] = [];
+    for (const [componentName, groupUuid] of this.componentGroups) {
+      if (groupUuids.some((uuid) => this.isInGroup(groupUuid, uuid))) {
+        components.push(componentName);
+      }
+    }
+    return components;
+  }
+
+  /** Returns the components having at least one of the given tags */
+  public getComponentsWithTags(tagIds: string[]): string[] {
+    const components: string[] = [];
+    for (const [componentName, componentTagIds] of this.componentTags) {
+      if (componentTagIds.some((id) => tagIds.includes(id))) {
+        components.push(componentName);
+      }
+    }
+    return components;
+  }
+
+  public clear(): void {
+    this.groupParents.clear();
+    this.tags.clear();
+    this.componentGroups.clear();
+    this.componentTags.clear();
+    this.contentTypes.clear();
+    this.nestableComponents.clear();
+  }
+
+  private isInGroup(groupUuid: string, ancestorUuid: string): boolean {
+    const visited = new Set<string>();
+    let current: string | undefined = groupUuid;
+
+    while (current && !visited.has(current)) {
+      if (current === ancestorUuid) {
+        return true;
+      }
+      visited.add(current);
+      current = this.groupParents.get(current);
+    }
+
+    return false;
+  }
+}
@@ -0,0 +1,35 @@
+import type { SchemaDeclaration } from "../types";
+
+/** A dictionary to track which components have been converted */
+export class ConvertedComponents {
+  private convertedComponents = new Map<string, SchemaDeclaration>();
+  private helperDeclarations = new Map<string, SchemaDeclaration[]>();
+
+  /**
+   * @param helpers - Declarations only used by the component, emitted right before it (e.g. its richtext schemas)
+   */
+  public add(componentName: string, declaration: SchemaDeclaration, helpers: SchemaDeclaration[] = []): void {
+    this.convertedComponents.set(componentName, declaration);
+    this.helperDeclarations.set(componentName, helpers);
+  }
+
+  public getHelpers(componentName: string): SchemaDeclaration[] {
+    return this.helperDeclarations.get(componentName) ?? [];
+  }
+
+  public has(componentName: string): boolean {
+    return this.convertedComponents.has(componentName);
+  }
+
+  public getAll(): [string, SchemaDeclaration][] {
+    return Array.from(this.convertedComponents.entries());
+  }
+
+  /** Returns the declarations of every component, preceded by their helper declarations */
+  public getAllValues(): SchemaDeclaration[] {
+    return Array.from(this.convertedComponents).flatMap(([componentName, declaration]) => [
+      ...this.getHelpers(componentName),
+      declaration,
+    ]);
+  }
+}
@@ -0,0 +1,51 @@
+/** A registry to manage the datasources pulled from Storyblok and the ones used by components */
+export class DatasourceRegistry {
+  private datasources = new Map<string, string[]>();
+  private usedDatasources = new Set<string>();
+  private missingDatasources = new Set<string>();
+
+  public set(slug: string, values: string[]): void {
+    this.datasources.set(slug, values);
+  }
+
+  public has(slug: string): boolean {
+    return this.datasources.has(slug);
+  }
+
+  public get(slug: string): string[] | undefined {
+    return this.datasources.get(slug);
+  }
+
+  public getSlugs(): string[] {
+    return Array.from(this.datasources.keys());
+  }
+
+  public markAsUsed(slug: string): void {
+    if (this.datasources.has(slug)) {
+      this.usedDatasources.add(slug);
+    }
+  }
+
+  /** Records a datasource that is referenced by a field but was not pulled. Returns `false` if it already was. */
+  public markAsMissing(slug: string): boolean {
+    if (this.missingDatasources.has(slug)) {
+      return false;
+    }
+    this.missingDatasources.add(slug);
+    return true;
+  }
+
+  public getUsed(): Map<string, string[]> {
+    const used = new Map<string, string[]>();
+    for (const slug of this.usedDatasources) {
+      used.set(slug, this.datasources.get(slug) ?? []);
+    }
+    return used;
+  }
+
+  public clear(): void {
+    this.datasources.clear();
+    this.usedDatasources.clear();
+    this.missingDatasources.clear();
+  }
+}
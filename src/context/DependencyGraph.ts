@@ -0,0 +1,45 @@
+/** A store of the dependencies between components and of the groups of components referencing each other */
+export class DependencyGraph {
+  private dependencies = new Map<string, string[]>();
+  private cycleGroups = new Map<string, number>();
+
+  public set(componentName: string, dependencies: string[]): void {
+    this.dependencies.set(componentName, dependencies);
+  }
+
+  public has(componentName: string): boolean {
+    return this.dependencies.has(componentName);
+  }
+
+  public getDependencies(componentName: string): string[] {
+    return this.dependencies.get(componentName) ?? [];
+  }
+
+  public getAll(): Map<string, string[]> {
+    return new Map(this.dependencies);
+  }
+
+  /** Records a group of components that (directly or indirectly) reference each other */
+  public addCycleGroup(componentNames: string[]): void {
+    const groupId = new Set(this.cycleGroups.values()).size;
+    for (const componentName of componentNames) {
+      this.cycleGroups.set(componentName, groupId);
+    }
+  }
+
+  /** Whether a component references itself, directly or through other components */
+  public isInCycle(componentName: string): boolean {
+    return this.cycleGroups.has(componentName);
+  }
+
+  /** Whether a reference from one component to another is part of a cycle */
+  public isCyclicReference(fromComponent: string, toComponent: string): boolean {
+    const fromGroup = this.cycleGroups.get(fromComponent);
+    return fromGroup !== undefined && fromGroup === this.cycleGroups.get(toComponent);
+  }
+
+  public clear(): void {
+    this.dependencies.clear();
+    this.cycleGroups.clear();
+  }
+}
@@ -0,0 +1,36 @@
+import type { ComponentSchemaField, SchemaDeclaration, SchemaNode } from "../types";
+
+/** Generates the schema of a field of a custom field type plugin */
+export type FieldPluginSchemaGenerator = (field: ComponentSchemaField) => SchemaNode;
+
+/** A registry to manage the custom field type plugins and the schemas generated for their fields */
+export class FieldPluginRegistry {
+  private generators = new Map<string, FieldPluginSchemaGenerator>();
+  private usedSchemas = new Map<string, SchemaDeclaration[]>();
+
+  public set(pluginName: string, generate: FieldPluginSchemaGenerator): void {
+    this.generators.set(pluginName, generate);
+  }
+
+  public get(pluginName: string): FieldPluginSchemaGenerator | undefined {
+    return this.generators.get(pluginName);
+  }
+
+  /** Returns the distinct schemas generated for the fields of a plugin so far */
+  public getUsedSchemas(pluginName: string): SchemaDeclaration[] {
+    return this.usedSchemas.get(pluginName) ?? [];
+  }
+
+  public addUsedSchema(pluginName: string, declaration: SchemaDeclaration): void {
+    this.usedSchemas.set(pluginName, [...this.getUsedSchemas(pluginName), declaration]);
+  }
+
+  public getUsed(): SchemaDeclaration[] {
+    return Array.from(this.usedSchemas.values()).flat();
+  }
+
+  public clear(): void {
+    this.generators.clear();
+    this.usedSchemas.clear();
+  }
+}
@@ -0,0 +1,28 @@
+import type { CLIOptions } from "../validation";
+import { ComponentTaxonomy } from "./ComponentTaxonomy";
+import { ConvertedComponents } from "./ConvertedComponents";
+import { DatasourceRegistry } from "./DatasourceRegistry";
+import { DependencyGraph } from "./DependencyGraph";
+import { FieldPluginRegistry } from "./FieldPluginRegistry";
+import { NativeSchemaRegistry } from "./NativeSchemaRegistry";
+import { Tracer } from "./Tracer";
+
+/**
+ * The state of a single generation run
+ *
+ * @remarks
+ * Every run gets its own context, so that several runs can happen in the same process (e.g. in watch mode or when
+ * called from a build script) without sharing registries, log level or diagnostics.
+ */
+export class GenerationContext {
+  public readonly convertedComponents = new ConvertedComponents();
+  public readonly nativeSchemas = new NativeSchemaRegistry();
+  public readonly datasources = new DatasourceRegistry();
+  public readonly dependencyGraph = new DependencyGraph();
+  public readonly taxonomy = new ComponentTaxonomy();
+  public readonly fieldPlugins = new FieldPluginRegistry();
+  /** Field overrides of the configuration that matched a field, keyed by `<component>.<field>` */
+  public readonly appliedFieldOverrides = new Set<string>();
+
+  public constructor(public readonly options: CLIOptions, public readonly tracer: Tracer) {}
+}
@@ -1,49 +1,49 @@
-/** A static registry to manage native schema dependencies */
+/** A registry to manage native schema dependencies */
 export class NativeSchemaRegistry {
-  private static nativeSchemas = new Map<string, string>();
-  private static usedNativeSchemas = new Map<string, string>();
+  private nativeSchemas = new Map<string, string>();
+  private usedNativeSchemas = new Map<string, string>();
 
-  public static getAll(): Map<string, string> {
+  public getAll(): Map<string, string> {
     return new Map(this.nativeSchemas);
   }
 
-  public static getAllValues(): string[] {
+  public getAllValues(): string[] {
     return Array.from(this.nativeSchemas.values());
   }
 
-  public static getUsed(): Map<string, string> {
+  public getUsed(): Map<string, string> {
     return new Map(this.usedNativeSchemas);
   }
 
-  public static markAsUsed(interfaceName: string): void {
+  public markAsUsed(interfaceName: string): void {
     const schemaContent = this.nativeSchemas.get(interfaceName);
     if (schemaContent) {
       this.usedNativeSchemas.set(interfaceName, schemaContent);
     }
   }
 
-  public static isUsed(interfaceName: string): boolean {
+  public isUsed(interfaceName: string): boolean {
     return this.usedNativeSchemas.has(interfaceName);
   }
 
-  public static has(interfaceName: string): boolean {
+  public has(interfaceName: string): boolean {
     return this.nativeSchemas.has(interfaceName);
   }
 
-  public static get(interfaceName: string): string | undefined {
+  public get(interfaceName: string): string | undefined {
     return this.nativeSchemas.get(interfaceName);
   }
 
-  public static set(interfaceName: string, schemaContent: string): void {
+  public set(interfaceName: string, schemaContent: string): void {
     this.nativeSchemas.set(interfaceName, schemaContent);
   }
 
-  public static clear(): void {
+  public clear(): void {
     this.nativeSchemas.clear();
     this.usedNativeSchemas.clear();
   }
 
-  public static getUsageStats(): { total: number; used: number; unused: number } {
+  public getUsageStats(): { total: number; used: number; unused: number } {
     const total = this.nativeSchemas.size;
     const used = this.usedNativeSchemas.size;
     return { total, used, unused: total - used };
@@ -0,0 +1,77 @@
+import chalk from "chalk";
+
+export enum LogLevel {
+  ERROR,
+  WARN,
+  INFO,
+  VERBOSE,
+  DEBUG,
+}
+
+/**
+ * A warning or an error reported during a generation run
+ */
+export interface Diagnostic {
+  level: "error" | "warning";
+  message: string;
+  /** Component or function the message relates to, if any */
+  componentName?: string;
+}
+
+/**
+ * Most detailed level of the messages printed for the --verbose and --debug options
+ */
+export function getLogLevel(options: { verbose?: boolean; debug?: boolean }): LogLevel {
+  return options.debug ? LogLevel.DEBUG : options.verbose ? LogLevel.VERBOSE : LogLevel.INFO;
+}
+
+export class Tracer {
+  /** Warnings and errors logged so far, whether they were printed or not */
+  public readonly diagnostics: Diagnostic[] = [];
+
+  /**
+   * @param logLevel - Most detailed level of the messages printed to the console
+   * @param print - Whether to print messages to the console at all, the diagnostics being collected either way
+   */
+  public constructor(public logLevel: LogLevel = LogLevel.INFO, private readonly print: boolean = true) {}
+
+  public log(level: LogLevel, message?: string, componentName?: string, spacing: number = 0): void {
+    if (message !== undefined && level <= LogLevel.WARN) {
+      const diagnostic: Diagnostic = { level: level === LogLevel.ERROR ? "error" : "warning", message };
+      if (componentName) {
+        diagnostic.componentName = componentName;
+      }
+      this.diagnostics.push(diagnostic);
+    }
+
+    if (this.print && level <= this.logLevel) {
+      if (message === undefined) {
+        console.log();
+        return;
+      }
+
+      const componentNamePart = componentName ? `${chalk.underline(componentName)}: ` : "";
+
+      const spacingIndent = " ".repeat(spacing);
+      const stringToShow = `${spacingIndent}${componentNamePart}${message}`;
+
+      const levelText = () => {
+        switch (level) {
+          case LogLevel.ERROR:
+            return chalk.red("ERROR: ");
+          case LogLevel.WARN:
+            return chalk.yellow("WARN: ");
+          default:
+            return "";
+        }
+      };
+
+      if (level === LogLevel.ERROR) {
+        console.error(`${levelText()}${stringToShow}`);
+      } else {
+        // We always use warn for non-error logs to ensure debug and verbose visibility even when piped
+        console.warn(`${levelText()}${stringToShow}`);
+      }
+    }
+  }
+}
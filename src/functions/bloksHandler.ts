@@ -1,59 +1,183 @@
-import type { Components } from "@storyblok/management-api-client";
-import { LogLevel, Tracer } from "../statics/Tracer";
-import { ConvertedComponents } from "../statics/ConvertedComponents";
+import type { ComponentSchemaField, SchemaNode } from "../types";
+import { LogLevel } from "../context/Tracer";
+import type { GenerationContext } from "../context/GenerationContext";
 import { kebabToCamelCase } from "../utils";
 
+/**
+ * Resolves the components allowed in a 'bloks' type field
+ *
+ * @returns The names of the allowed components, or `undefined` if any component is allowed
+ *
+ * @remarks
+ * Depending on the field's `restrict_type`, the allowed components are either listed in `component_whitelist`, or
+ * are the members of the groups listed in `component_group_whitelist` (including sub-groups), or the components
+ * tagged with one of the tags listed in `component_tag_whitelist`.
+ */
+export function resolveBloksWhitelist(value: ComponentSchemaField, context: GenerationContext): string[] | undefined {
+  if (value.restrict_components === false) {
+    return undefined;
+  }
+
+  if (value.restrict_type === "groups") {
+    if (!Array.isArray(value.component_group_whitelist)) {
+      return undefined;
+    }
+
+    const groupUuids = value.component_group_whitelist.filter((uuid) => typeof uuid === "string");
+    return context.taxonomy.getComponentsInGroups(groupUuids);
+  }
+
+  if (value.restrict_type === "tags") {
+    if (!Array.isArray(value.component_tag_whitelist)) {
+      return undefined;
+    }
+
+    return context.taxonomy.getComponentsWithTags(value.component_tag_whitelist.map(String));
+  }
+
+  if (!Array.isArray(value.component_whitelist) || value.component_whitelist.length === 0) {
+    return undefined;
+  }
+
+  return value.component_whitelist;
+}
+
 /**
  * Handles the conversion of 'bloks' type fields with proper validation
+ *
+ * @remarks
+ * Bloks fields always hold a list of nested bloks. When several components are whitelisted, the list items are
+ * discriminated on their `component` key so that parse errors point at the right component.
  */
-export function handleBloksType(value: Components.ComponentSchemaField, parentComponentName: string): string {
-  if (!Array.isArray(value.component_whitelist)) {
-    Tracer.log(
+export function handleBloksType(
+  value: ComponentSchemaField,
+  parentComponentName: string,
+  context: GenerationContext
+): SchemaNode {
+  warnAboutUnknownGroupsAndTags(value, parentComponentName, context);
+
+  const whitelist = resolveBloksWhitelist(value, context);
+
+  if (!whitelist) {
+    return ANY_BLOKS_SCHEMA; // No whitelist means any component is allowed
+  }
+
+  if (whitelist.length === 0) {
+    context.tracer.log(
       LogLevel.WARN,
-      `Bloks field in component '${parentComponentName}' has no component_whitelist or invalid format. Defaulting to 'z.any()'.`
+      `Bloks field in component '${parentComponentName}' has no allowed components. Defaulting to 'z.any()'.`
     );
-    return "z.any()";
+    return ANY_BLOKS_SCHEMA;
   }
 
-  if (value.component_whitelist.length === 0) {
-    return "z.any()"; // No whitelist means any component is allowed
-  }
+  const itemSchema = buildComponentsSchema(whitelist, parentComponentName, context);
+  return itemSchema ? { kind: "array", items: itemSchema } : ANY_BLOKS_SCHEMA;
+}
 
+/**
+ * Builds the schema of a single blok of one of the given components, nested in the parent component
+ *
+ * @returns The reference to the schema of the component, or a union discriminated on the `component` key if there are
+ * several components, or `undefined` if none of them was converted
+ *
+ * @remarks
+ * Components that are part of a cycle with the parent component are referenced through `z.lazy()`. Their schemas are
+ * annotated with a type declared from their structure, since their type cannot be inferred.
+ */
+export function buildComponentsSchema(
+  componentNames: string[],
+  parentComponentName: string,
+  context: GenerationContext
+): SchemaNode | undefined {
   // Validate that all whitelisted components exist
   const validComponents: string[] = [];
+  let hasCyclicReference = false;
 
-  for (const componentName of value.component_whitelist) {
+  for (const componentName of componentNames) {
     if (!componentName || typeof componentName !== "string") {
-      Tracer.log(
+      context.tracer.log(
         LogLevel.WARN,
         `Invalid component name in whitelist for '${parentComponentName}': ${JSON.stringify(componentName)}`
       );
       continue;
     }
 
-    if (!ConvertedComponents.has(componentName)) {
-      Tracer.log(
+    if (context.dependencyGraph.isCyclicReference(parentComponentName, componentName)) {
+      // Referenced before being defined: its schema will be lazily evaluated
+      hasCyclicReference = true;
+    } else if (context.options.excludedComponents.includes(componentName)) {
+      context.tracer.log(
+        LogLevel.VERBOSE,
+        `Nested component '${componentName}' used in '${parentComponentName}' is excluded. Skipping.`
+      );
+      continue;
+    } else if (!context.convertedComponents.has(componentName)) {
+      context.tracer.log(
         LogLevel.WARN,
-        `Nested component '${componentName}' used in '${parentComponentName}' has not been converted yet.`
+        context.dependencyGraph.has(componentName)
+          ? `Nested component '${componentName}' used in '${parentComponentName}' could not be converted. Skipping.`
+          : `Nested component '${componentName}' used in '${parentComponentName}' does not exist. Skipping.`
       );
-      return "z.any()"; // Fallback to z.any() if nested component is not converted
+      continue;
     }
 
     validComponents.push(componentName);
   }
 
   if (validComponents.length === 0) {
-    return "z.any()";
+    return undefined;
+  }
+
+  const itemSchema = buildComponentUnion(validComponents, context);
+
+  return hasCyclicReference ? { kind: "lazy", inner: itemSchema } : itemSchema;
+}
+
+/**
+ * Builds the union of the schemas of the given components, discriminated on the `component` key
+ *
+ * @remarks
+ * The union is not discriminated if one of the components is part of a cycle: Zod only discriminates object schemas,
+ * while the schemas of these components are annotated with their type.
+ */
+export function buildComponentUnion(componentNames: string[], context: GenerationContext): SchemaNode {
+  const schemas: SchemaNode[] = componentNames.map((componentName) => ({
+    kind: "ref",
+    name: kebabToCamelCase(componentName) + "Schema",
+  }));
+
+  if (schemas.length === 1) {
+    return schemas[0]!;
   }
 
-  if (validComponents.length === 1) {
-    const componentName = validComponents[0];
-    if (!componentName) {
-      return "z.any()";
+  return componentNames.some((componentName) => context.dependencyGraph.isInCycle(componentName))
+    ? { kind: "union", options: schemas }
+    : { kind: "discriminatedUnion", discriminator: "component", options: schemas };
+}
+
+const ANY_BLOKS_SCHEMA: SchemaNode = { kind: "array", items: { kind: "any" } };
+
+function warnAboutUnknownGroupsAndTags(
+  value: ComponentSchemaField,
+  parentComponentName: string,
+  context: GenerationContext
+): void {
+  if (value.restrict_type === "groups" && Array.isArray(value.component_group_whitelist)) {
+    for (const uuid of value.component_group_whitelist) {
+      if (!context.taxonomy.hasGroup(uuid)) {
+        context.tracer.log(
+          LogLevel.WARN,
+          `Unknown component group '${uuid}' in whitelist for '${parentComponentName}'`
+        );
+      }
     }
-    return kebabToCamelCase(componentName) + "Schema";
   }
 
-  const whitelistedComponents = validComponents.map((comp) => kebabToCamelCase(comp) + "Schema").join(", ");
-  return `z.union([${whitelistedComponents}])`;
-}
\ No newline at end of file
+  if (value.restrict_type === "tags" && Array.isArray(value.component_tag_whitelist)) {
+    for (const id of value.component_tag_whitelist) {
+      if (!context.taxonomy.hasTag(String(id))) {
+        context.tracer.log(LogLevel.WARN, `Unknown component tag '${id}' in whitelist for '${parentComponentName}'`);
+      }
+    }
+  }
+}
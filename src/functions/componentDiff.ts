@@ -0,0 +1,357 @@
+import { execFile } from "child_process";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import chalk from "chalk";
+import type { ComponentSchemaField } from "../types";
+import type { GenerationContext } from "../context/GenerationContext";
+import { LogLevel } from "../context/Tracer";
+import { safeReadJsonFile, safeWriteFile } from "../utils";
+import { FileOperationError, isValidDirectoryPath, validateComponentData, ValidationError } from "../validation";
+import { resolveBloksWhitelist } from "./bloksHandler";
+import { discoverComponentFiles, getComponentTagIds, loadComponentGroupsAndTags } from "./componentProcessor";
+import { getFieldConstraints } from "./constraintsHandler";
+
+const execFileAsync = promisify(execFile);
+
+/** Field types that only lay out the editor and hold no content */
+const LAYOUT_FIELD_TYPES = ["tab", "section"];
+
+/** Field types whose allowed components are restricted by a whitelist */
+const WHITELISTED_FIELD_TYPES = ["bloks", "richtext"];
+
+/** What the minimum and maximum constraints of a field bound, by field type */
+const CONSTRAINED_QUANTITIES: Record<string, string> = {
+  text: "length",
+  textarea: "length",
+  markdown: "length",
+  number: "value",
+  bloks: "number of bloks",
+  options: "number of choices",
+};
+
+/**
+ * A change of a component between two snapshots
+ */
+export interface ComponentChange {
+  /** Whether content valid against the old schemas may be invalid against the new ones */
+  breaking: boolean;
+  componentName: string;
+  /** Name of the changed field, or `undefined` if the whole component changed */
+  fieldName?: string;
+  description: string;
+}
+
+/** A content field of a snapshot */
+export interface SnapshotField {
+  field: ComponentSchemaField;
+  /** Components allowed in a bloks or richtext field, or `undefined` if any component is allowed */
+  allowedComponents?: string[];
+}
+
+/** The content fields of each component of a snapshot */
+export type ComponentSnapshot = Map<string, Map<string, SnapshotField>>;
+
+/**
+ * Loads the components of a snapshot, which is either a components folder or a git ref
+ *
+ * @remarks
+ * For a git ref, the components folder of the space (e.g. `.storyblok/components/<space>`) is read as it was at that
+ * ref. The fields are parsed with validateComponentData(), and bloks whitelists are resolved with the groups and tags
+ * of the snapshot, so that moving a component between groups is detected as well.
+ *
+ * @throws {ValidationError} When the source is neither a folder nor a git ref
+ */
+export async function loadComponentSnapshot(source: string, context: GenerationContext): Promise<ComponentSnapshot> {
+  if (await isValidDirectoryPath(source)) {
+    return readComponentSnapshot(path.resolve(source), context);
+  }
+
+  const componentsPath = path.join(context.options.folder, "components", context.options.space);
+  const snapshotPath = await extractGitSnapshot(source, componentsPath, context);
+  try {
+    return await readComponentSnapshot(snapshotPath, context);
+  } finally {
+    await fs.rm(snapshotPath, { recursive: true, force: true });
+  }
+}
+
+async function readComponentSnapshot(jsonPath: string, context: GenerationContext): Promise<ComponentSnapshot> {
+  const componentFiles = await discoverComponentFiles(jsonPath, context);
+  await loadComponentGroupsAndTags(jsonPath, context);
+
+  const schemas = new Map<string, Record<string, ComponentSchemaField>>();
+  for (const fileName of componentFiles) {
+    const componentName = path.basename(fileName, ".json");
+    const fileContent = await safeReadJsonFile(path.join(jsonPath, fileName));
+    const { schema } = validateComponentData(fileContent, componentName, context.tracer);
+
+    schemas.set(componentName, schema);
+    context.taxonomy.setComponentMembership(
+      componentName,
+      typeof fileContent.component_group_uuid === "string" ? fileContent.component_group_uuid : undefined,
+      getComponentTagIds(fileContent)
+    );
+  }
+
+  // Whitelists are resolved once the membership of every component is known
+  const snapshot: ComponentSnapshot = new Map();
+  for (const [componentName, schema] of schemas) {
+    const fields = new Map<string, SnapshotField>();
+    for (const [fieldName, field] of Object.entries(schema)) {
+      if (field.type && LAYOUT_FIELD_TYPES.includes(field.type)) {
+        continue;
+      }
+
+      const allowedComponents =
+        field.type && WHITELISTED_FIELD_TYPES.includes(field.type) ? resolveBloksWhitelist(field, context) : undefined;
+      fields.set(fieldName, allowedComponents ? { field, allowedComponents } : { field });
+    }
+    snapshot.set(componentName, fields);
+  }
+
+  context.tracer.log(LogLevel.VERBOSE, `Loaded ${snapshot.size} components from ${jsonPath}`);
+
+  return snapshot;
+}
+
+/**
+ * Writes the component files found at a git ref to a temporary folder
+ *
+ * @returns The path of the temporary folder, to be removed by the caller
+ */
+async function extractGitSnapshot(ref: string, componentsPath: string, context: GenerationContext): Promise<string> {
+  const relativePath = path.relative(process.cwd(), path.resolve(componentsPath)).split(path.sep).join("/");
+
+  let fileNames: string[];
+  try {
+    await execFileAsync("git", ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+    const { stdout } = await execFileAsync("git", ["ls-tree", "--name-only", ref, `./${relativePath}/`]);
+    fileNames = stdout.split("\n").filter((fileName) => fileName.endsWith(".json"));
+  } catch {
+    throw new ValidationError(`'${ref}' is neither a components folder nor a git ref`, { ref });
+  }
+
+  if (fileNames.length === 0) {
+    throw new ValidationError(`No component files found in '${relativePath}' at git ref '${ref}'`, { ref });
+  }
+
+  const snapshotPath = await fs.mkdtemp(path.join(os.tmpdir(), "storyblok-to-zod-"));
+  for (const fileName of fileNames) {
+    const baseName = path.posix.basename(fileName);
+    try {
+      const { stdout } = await execFileAsync("git", ["show", `${ref}:./${relativePath}/${baseName}`], {
+        maxBuffer: 64 * 1024 * 1024,
+      });
+      await safeWriteFile(path.join(snapshotPath, baseName), stdout, context.tracer);
+    } catch (error) {
+      await fs.rm(snapshotPath, { recursive: true, force: true });
+      throw new FileOperationError(
+        `Failed to read file at git ref '${ref}': ${error instanceof Error ? error.message : "Unknown error"}`,
+        fileName,
+        "git show"
+      );
+    }
+  }
+
+  context.tracer.log(LogLevel.DEBUG, `Extracted ${fileNames.length} files of '${relativePath}' at '${ref}'`);
+
+  return snapshotPath;
+}
+
+/**
+ * Lists the changes between two snapshots, from the point of view of content valid against the old schemas
+ *
+ * @remarks
+ * Breaking changes are removed components and fields, fields that became required, required fields that were added,
+ * changed field types, narrowed bloks whitelists, removed or re-sourced option choices and tightened constraints (a
+ * raised minimum, a lowered maximum or a new or changed pattern). Everything else that affects the generated schemas
+ * is non-breaking.
+ */
+export function diffComponentSnapshots(before: ComponentSnapshot, after: ComponentSnapshot): ComponentChange[] {
+  const changes: ComponentChange[] = [];
+
+  for (const componentName of before.keys()) {
+    if (!after.has(componentName)) {
+      changes.push({ breaking: true, componentName, description: "component removed" });
+    }
+  }
+
+  for (const [componentName, afterFields] of after) {
+    const beforeFields = before.get(componentName);
+    if (!beforeFields) {
+      changes.push({ breaking: false, componentName, description: "component added" });
+      continue;
+    }
+
+    for (const fieldName of beforeFields.keys()) {
+      if (!afterFields.has(fieldName)) {
+        changes.push({ breaking: true, componentName, fieldName, description: "field removed" });
+      }
+    }
+
+    for (const [fieldName, afterField] of afterFields) {
+      const beforeField = beforeFields.get(fieldName);
+      if (!beforeField) {
+        const required = Boolean(afterField.field.required);
+        changes.push({
+          breaking: required,
+          componentName,
+          fieldName,
+          description: required ? "required field added" : "optional field added",
+        });
+        continue;
+      }
+
+      for (const [breaking, description] of diffFields(beforeField, afterField)) {
+        changes.push({ breaking, componentName, fieldName, description });
+      }
+    }
+  }
+
+  return changes;
+}
+
+function diffFields(before: SnapshotField, after: SnapshotField): [breaking: boolean, description: string][] {
+  if (before.field.type !== after.field.type) {
+    return [[true, `type changed from '${before.field.type}' to '${after.field.type}'`]];
+  }
+
+  const changes: [boolean, string][] = [];
+
+  if (!before.field.required && after.field.required) {
+    changes.push([true, "became required"]);
+  } else if (before.field.required && !after.field.required) {
+    changes.push([false, "became optional"]);
+  }
+
+  if (after.field.type && WHITELISTED_FIELD_TYPES.includes(after.field.type)) {
+    const beforeAllowed = before.allowedComponents;
+    const afterAllowed = after.allowedComponents;
+
+    if (!beforeAllowed && afterAllowed) {
+      changes.push([true, `whitelist narrowed to ${formatNames(afterAllowed)}`]);
+    } else if (beforeAllowed && !afterAllowed) {
+      changes.push([false, "whitelist removed, allowing any component"]);
+    } else if (beforeAllowed && afterAllowed) {
+      const removed = beforeAllowed.filter((name) => !afterAllowed.includes(name));
+      const added = afterAllowed.filter((name) => !beforeAllowed.includes(name));
+
+      if (removed.length > 0) {
+        changes.push([true, `whitelist narrowed, no longer allowing ${formatNames(removed)}`]);
+      }
+      if (added.length > 0) {
+        changes.push([false, `whitelist widened to allow ${formatNames(added)}`]);
+      }
+    }
+  }
+
+  const quantity = after.field.type ? CONSTRAINED_QUANTITIES[after.field.type] : undefined;
+  if (quantity) {
+    const beforeConstraints = getFieldConstraints(before.field);
+    const afterConstraints = getFieldConstraints(after.field);
+
+    changes.push(
+      ...diffBound("minimum", quantity, beforeConstraints.min, afterConstraints.min),
+      ...diffBound("maximum", quantity, beforeConstraints.max, afterConstraints.max)
+    );
+
+    if (beforeConstraints.regex !== afterConstraints.regex) {
+      if (!afterConstraints.regex) {
+        changes.push([false, "pattern removed"]);
+      } else {
+        const verb = beforeConstraints.regex ? "changed" : "set";
+        // A different pattern may reject text matching the previous one
+        changes.push([true, `pattern ${verb} to '${afterConstraints.regex}'`]);
+      }
+    }
+  }
+
+  if (after.field.type === "option" || after.field.type === "options") {
+    if (before.field.source !== after.field.source || before.field.datasource_slug !== after.field.datasource_slug) {
+      changes.push([true, "source of the choices changed"]);
+    } else {
+      const beforeValues = getOptionValues(before.field);
+      const afterValues = getOptionValues(after.field);
+      const removed = beforeValues.filter((value) => !afterValues.includes(value));
+      const added = afterValues.filter((value) => !beforeValues.includes(value));
+
+      if (removed.length > 0) {
+        changes.push([true, `choices ${formatNames(removed)} removed`]);
+      }
+      if (added.length > 0) {
+        changes.push([false, `choices ${formatNames(added)} added`]);
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compares a minimum or maximum constraint, which is tightened when a minimum is raised or a maximum is lowered
+ */
+function diffBound(
+  bound: "minimum" | "maximum",
+  quantity: string,
+  before: number | undefined,
+  after: number | undefined
+): [breaking: boolean, description: string][] {
+  if (before === after) {
+    return [];
+  }
+
+  if (after === undefined) {
+    return [[false, `${bound} ${quantity} removed`]];
+  }
+
+  if (before === undefined) {
+    return [[true, `${bound} ${quantity} set to ${after}`]];
+  }
+
+  const raised = after > before;
+  const description = `${bound} ${quantity} ${raised ? "raised" : "lowered"} from ${before} to ${after}`;
+  return [[raised === (bound === "minimum"), description]];
+}
+
+function getOptionValues(field: ComponentSchemaField): string[] {
+  return (field.options ?? []).map((option) => String(option.value ?? option.name ?? ""));
+}
+
+function formatNames(names: string[]): string {
+  return names.map((name) => `'${name}'`).join(", ");
+}
+
+/**
+ * Formats the changes as a report, breaking changes first
+ */
+export function formatDiffReport(changes: ComponentChange[]): string {
+  if (changes.length === 0) {
+    return chalk.green("No changes affecting the generated schemas");
+  }
+
+  const formatChange = (change: ComponentChange): string =>
+    `  ${chalk.bold(change.fieldName ? `${change.componentName}.${change.fieldName}` : change.componentName)}: ${
+      change.description
+    }`;
+
+  const breakingChanges = changes.filter((change) => change.breaking);
+  const nonBreakingChanges = changes.filter((change) => !change.breaking);
+  const lines: string[] = [];
+
+  if (breakingChanges.length > 0) {
+    lines.push(chalk.red(`Breaking changes (${breakingChanges.length}):`), ...breakingChanges.map(formatChange));
+  }
+  if (nonBreakingChanges.length > 0) {
+    if (lines.length > 0) {
+      lines.push("");
+    }
+    lines.push(
+      chalk.green(`Non-breaking changes (${nonBreakingChanges.length}):`),
+      ...nonBreakingChanges.map(formatChange)
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -1,8 +1,10 @@
 import fs from "fs/promises";
 import path from "path";
-import type { Components } from "@storyblok/management-api-client";
-import { LogLevel, Tracer } from "../statics/Tracer";
-import { ConvertedComponents } from "../statics/ConvertedComponents";
+import type { ComponentSchemaField } from "../types";
+import { LogLevel } from "../context/Tracer";
+import type { GenerationContext } from "../context/GenerationContext";
+import { resolveBloksWhitelist } from "./bloksHandler";
+import { getRelationContentTypes, isRelationField } from "./relationsHandler";
 import convertComponentJsonToZod from "./convertComponentJsonToZod";
 import { safeReadJsonFile } from "../utils";
 import {
@@ -14,7 +16,7 @@ import {
 /**
  * Discover and validate component files
  */
-export async function discoverComponentFiles(jsonPath: string): Promise<string[]> {
+export async function discoverComponentFiles(jsonPath: string, context: GenerationContext): Promise<string[]> {
   try {
     if (!(await isValidDirectoryPath(jsonPath))) {
       throw new ValidationError(`Components directory does not exist: ${jsonPath}`);
@@ -24,9 +26,24 @@ export async function discoverComponentFiles(jsonPath: string): Promise<string[]
     const ignoredFiles = ["groups.json", "tags.json"];
     const componentFiles = allFiles.filter((file) => file.endsWith(".json") && !ignoredFiles.includes(file));
 
-    Tracer.log(LogLevel.DEBUG, `Discovered ${componentFiles.length} component files in ${jsonPath}`);
+    for (const componentName of context.options.excludedComponents) {
+      if (!componentFiles.includes(componentName + ".json")) {
+        context.tracer.log(LogLevel.WARN, `Excluded component '${componentName}' does not exist`);
+      }
+    }
+
+    const includedFiles = componentFiles.filter(
+      (file) => !context.options.excludedComponents.includes(path.basename(file, ".json"))
+    );
+
+    context.tracer.log(
+      LogLevel.DEBUG,
+      `Discovered ${componentFiles.length} component files in ${jsonPath}, ${
+        componentFiles.length - includedFiles.length
+      } of them excluded`
+    );
 
-    return componentFiles;
+    return includedFiles;
   } catch (error) {
     if (error instanceof ValidationError) {
       throw error;
@@ -39,40 +56,72 @@ export async function discoverComponentFiles(jsonPath: string): Promise<string[]
   }
 }
 
+/**
+ * Load the component groups (`groups.json`) and tags (`tags.json`) pulled alongside the components
+ *
+ * @remarks
+ * Both files are optional: they are only needed to resolve bloks fields restricted to groups or tags.
+ */
+export async function loadComponentGroupsAndTags(jsonPath: string, context: GenerationContext): Promise<void> {
+  const groups = await readOptionalJsonList(path.join(jsonPath, "groups.json"), "component_groups", context);
+  for (const group of groups) {
+    if (group && typeof group === "object" && "uuid" in group && typeof group.uuid === "string") {
+      const parentUuid =
+        "parent_uuid" in group && typeof group.parent_uuid === "string" ? group.parent_uuid : undefined;
+      context.taxonomy.addGroup(group.uuid, parentUuid);
+    }
+  }
+
+  const tags = await readOptionalJsonList(path.join(jsonPath, "tags.json"), "internal_tags", context);
+  for (const tag of tags) {
+    if (tag && typeof tag === "object" && "id" in tag && tag.id !== undefined && tag.id !== null) {
+      context.taxonomy.addTag(String(tag.id), "name" in tag && typeof tag.name === "string" ? tag.name : "");
+    }
+  }
+
+  context.tracer.log(
+    LogLevel.DEBUG,
+    `Loaded ${groups.length} component groups and ${tags.length} tags from ${jsonPath}`
+  );
+}
+
 /**
  * Build dependency graph and determine conversion order
  */
-export async function buildDependencyGraph(componentFiles: string[], jsonPath: string): Promise<string[]> {
+export async function buildDependencyGraph(
+  componentFiles: string[],
+  jsonPath: string,
+  context: GenerationContext
+): Promise<string[]> {
   const componentDependencies = new Map<string, string[]>();
+  const componentSchemas = new Map<string, Record<string, ComponentSchemaField>>();
 
-  // Scan all components and create a dependency graph
+  // Scan all components first, as resolving group and tag whitelists requires the membership of every component
   for (const fileName of componentFiles) {
     const componentName = path.basename(fileName, ".json");
 
     try {
       const fileContent = await safeReadJsonFile(path.join(jsonPath, fileName));
-      const schemaData = fileContent?.schema as Record<string, Components.ComponentSchemaField> | undefined;
+      const schemaData = fileContent?.schema as Record<string, ComponentSchemaField> | undefined;
 
       if (!schemaData) {
-        Tracer.log(LogLevel.WARN, `Invalid or missing schema in JSON for component '${componentName}'. Skipping.`);
+        context.tracer.log(
+          LogLevel.WARN,
+          `Invalid or missing schema in JSON for component '${componentName}'. Skipping.`
+        );
         continue;
       }
 
-      const dependencies: string[] = [];
-      for (const fieldName of Object.keys(schemaData)) {
-        const field = schemaData[fieldName];
-
-        if (!field || field.type !== "bloks" || !Array.isArray(field.component_whitelist)) {
-          continue;
-        }
-
-        dependencies.push(...field.component_whitelist.filter((comp) => typeof comp === "string"));
-      }
-
-      componentDependencies.set(componentName, dependencies);
-      Tracer.log(LogLevel.DEBUG, `Component '${componentName}' has dependencies: [${dependencies.join(", ")}]`);
+      componentSchemas.set(componentName, schemaData);
+      context.taxonomy.setComponentMembership(
+        componentName,
+        typeof fileContent.component_group_uuid === "string" ? fileContent.component_group_uuid : undefined,
+        getComponentTagIds(fileContent)
+      );
+      context.taxonomy.setContentType(componentName, fileContent.is_root === true);
+      context.taxonomy.setNestable(componentName, fileContent.is_nestable === true);
     } catch (error) {
-      Tracer.log(
+      context.tracer.log(
         LogLevel.WARN,
         `Failed to process component '${componentName}': ${
           error instanceof Error ? error.message : "Unknown error"
@@ -81,52 +130,123 @@ export async function buildDependencyGraph(componentFiles: string[], jsonPath: s
     }
   }
 
+  // Create the dependency graph
+  for (const [componentName, schemaData] of componentSchemas) {
+    const dependencies: string[] = [];
+    for (const fieldName of Object.keys(schemaData)) {
+      const field = schemaData[fieldName];
+
+      // Richtext fields may embed bloks as well, and resolved relations embed the content of stories
+      let referencedComponents: string[];
+      if (field && (field.type === "bloks" || field.type === "richtext")) {
+        referencedComponents = resolveBloksWhitelist(field, context) ?? [];
+      } else if (field && context.options.resolvedRelations.includes(`${componentName}.${fieldName}`)) {
+        referencedComponents = isRelationField(field) ? getRelationContentTypes(field, context) : [];
+      } else {
+        continue;
+      }
+
+      dependencies.push(
+        ...referencedComponents.filter((comp) => typeof comp === "string" && !dependencies.includes(comp))
+      );
+    }
+
+    componentDependencies.set(componentName, dependencies);
+    context.dependencyGraph.set(componentName, dependencies);
+    context.tracer.log(LogLevel.DEBUG, `Component '${componentName}' has dependencies: [${dependencies.join(", ")}]`);
+  }
+
+  for (const relation of context.options.resolvedRelations) {
+    const [componentName = "", fieldName = ""] = relation.split(".");
+    const field = componentSchemas.get(componentName)?.[fieldName];
+    if (!field) {
+      context.tracer.log(LogLevel.WARN, `Resolved relation '${relation}' does not match any field`);
+    } else if (!isRelationField(field)) {
+      context.tracer.log(
+        LogLevel.WARN,
+        `Resolved relation '${relation}' is not an option field sourced from stories. It will not be resolved.`
+      );
+    }
+  }
+
   // Topological sort to determine conversion order
-  return performTopologicalSort(componentDependencies);
+  return performTopologicalSort(componentDependencies, context);
 }
 
 /**
  * Perform topological sort on component dependencies
+ *
+ * @remarks
+ * Uses Tarjan's strongly connected components algorithm, which emits every group of components before the groups
+ * depending on it. Components that reference each other (including a component referencing itself) end up in the
+ * same group: such groups are recorded in the DependencyGraph so that their references can be lazily evaluated.
  */
-export function performTopologicalSort(componentDependencies: Map<string, string[]>): string[] {
+export function performTopologicalSort(
+  componentDependencies: Map<string, string[]>,
+  context: GenerationContext
+): string[] {
   const sortedComponents: string[] = [];
-  const visited = new Set<string>();
-
-  function visit(component: string, tempMarks: Set<string>): void {
-    if (tempMarks.has(component)) {
-      throw new ValidationError(`Cyclic dependency detected involving component '${component}'`, {
-        component,
-        tempMarks: Array.from(tempMarks),
-      });
-    }
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
 
-    if (!visited.has(component)) {
-      tempMarks.add(component);
-      const deps = componentDependencies.get(component) || [];
+  function visit(component: string): void {
+    indexes.set(component, indexes.size);
+    lowLinks.set(component, indexes.get(component)!);
+    stack.push(component);
+    onStack.add(component);
 
-      for (const dep of deps) {
-        if (componentDependencies.has(dep)) {
-          visit(dep, tempMarks);
-        }
+    const deps = componentDependencies.get(component) || [];
+
+    for (const dep of deps) {
+      if (!componentDependencies.has(dep)) {
+        continue;
       }
 
-      tempMarks.delete(component);
-      visited.add(component);
-      sortedComponents.push(component);
+      if (!indexes.has(dep)) {
+        visit(dep);
+        lowLinks.set(component, Math.min(lowLinks.get(component)!, lowLinks.get(dep)!));
+      } else if (onStack.has(dep)) {
+        lowLinks.set(component, Math.min(lowLinks.get(component)!, indexes.get(dep)!));
+      }
+    }
+
+    if (lowLinks.get(component) !== indexes.get(component)) {
+      return;
+    }
+
+    // The component is the root of a group: pop the whole group from the stack
+    const group: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      group.push(member);
+    } while (member !== component);
+
+    group.reverse();
+    sortedComponents.push(...group);
+
+    if (group.length > 1 || deps.includes(component)) {
+      context.dependencyGraph.addCycleGroup(group);
+      context.tracer.log(
+        LogLevel.VERBOSE,
+        `Cyclic dependency detected between components [${group.join(", ")}]. References will be lazily evaluated.`
+      );
     }
   }
 
   try {
     for (const component of componentDependencies.keys()) {
-      visit(component, new Set<string>());
+      if (!indexes.has(component)) {
+        visit(component);
+      }
     }
 
-    Tracer.log(LogLevel.DEBUG, `Component conversion order: [${sortedComponents.join(", ")}]`);
+    context.tracer.log(LogLevel.DEBUG, `Component conversion order: [${sortedComponents.join(", ")}]`);
     return sortedComponents;
   } catch (error) {
-    if (error instanceof ValidationError) {
-      throw error;
-    }
     throw new Error(`Failed to sort components: ${error instanceof Error ? error.message : "Unknown error"}`);
   }
 }
@@ -134,13 +254,17 @@ export function performTopologicalSort(componentDependencies: Map<string, string
 /**
  * Convert all components to Zod schemas
  */
-export async function convertComponents(sortedComponents: string[], jsonPath: string): Promise<void> {
+export async function convertComponents(
+  sortedComponents: string[],
+  jsonPath: string,
+  context: GenerationContext
+): Promise<void> {
   for (const componentName of sortedComponents) {
     try {
-      await convertComponentJsonToZod(componentName, jsonPath);
-      Tracer.log(LogLevel.VERBOSE, `Converted component: ${componentName}`);
+      await convertComponentJsonToZod(componentName, jsonPath, context);
+      context.tracer.log(LogLevel.VERBOSE, `Converted component: ${componentName}`);
     } catch (error) {
-      Tracer.log(
+      context.tracer.log(
         LogLevel.ERROR,
         `Failed to convert component '${componentName}': ${error instanceof Error ? error.message : "Unknown error"}`
       );
@@ -153,6 +277,61 @@ export async function convertComponents(sortedComponents: string[], jsonPath: st
     }
   }
 
-  const convertedCount = ConvertedComponents.getAll().length;
-  Tracer.log(LogLevel.VERBOSE, `Successfully converted ${convertedCount} components`);
-}
\ No newline at end of file
+  for (const fieldPath of context.options.fieldOverrides.keys()) {
+    if (!context.appliedFieldOverrides.has(fieldPath)) {
+      context.tracer.log(LogLevel.WARN, `Field override '${fieldPath}' does not match any field`);
+    }
+  }
+
+  const convertedCount = context.convertedComponents.getAll().length;
+  context.tracer.log(LogLevel.VERBOSE, `Successfully converted ${convertedCount} components`);
+}
+
+/**
+ * Reads a JSON file containing a list, either directly or wrapped in a property as returned by the Management API
+ */
+async function readOptionalJsonList(
+  filePath: string,
+  wrapperProperty: string,
+  context: GenerationContext
+): Promise<unknown[]> {
+  try {
+    await fs.access(filePath);
+  } catch {
+    context.tracer.log(LogLevel.DEBUG, `Optional file not found: ${filePath}`);
+    return [];
+  }
+
+  const data = await safeReadJsonFile<unknown>(filePath);
+  const list =
+    data && typeof data === "object" && !Array.isArray(data)
+      ? (data as Record<string, unknown>)[wrapperProperty]
+      : data;
+
+  if (!Array.isArray(list)) {
+    throw new ValidationError(`Expected a list in '${path.basename(filePath)}'`, { filePath });
+  }
+
+  return list;
+}
+
+/**
+ * Returns the IDs of the tags of a component, from `internal_tag_ids` or `internal_tags_list`
+ */
+export function getComponentTagIds(componentData: unknown): string[] {
+  if (!componentData || typeof componentData !== "object") {
+    return [];
+  }
+
+  if ("internal_tag_ids" in componentData && Array.isArray(componentData.internal_tag_ids)) {
+    return componentData.internal_tag_ids.map(String);
+  }
+
+  if ("internal_tags_list" in componentData && Array.isArray(componentData.internal_tags_list)) {
+    return componentData.internal_tags_list.flatMap((tag: unknown) =>
+      tag && typeof tag === "object" && "id" in tag && tag.id !== undefined && tag.id !== null ? [String(tag.id)] : []
+    );
+  }
+
+  return [];
+}
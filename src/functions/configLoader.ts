@@ -0,0 +1,170 @@
+import fs from "fs/promises";
+import { createRequire, isBuiltin } from "module";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import { ts } from "ts-morph";
+import * as CONSTANTS from "../constants";
+import type { StoryblokToZodConfig } from "../types";
+import { safeReadJsonFile } from "../utils";
+import { FileOperationError, validateConfig, ValidationError } from "../validation";
+
+/**
+ * Finds the configuration file in the given directory
+ *
+ * @returns The path of the first file of CONFIG_FILE_NAMES found, or `undefined` if there is none
+ */
+export async function findConfigFile(directory: string): Promise<string | undefined> {
+  for (const fileName of CONSTANTS.CONFIG_FILE_NAMES) {
+    const filePath = path.join(directory, fileName);
+    try {
+      await fs.access(filePath);
+      return filePath;
+    } catch {
+      // Try the next file name
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Loads and validates a configuration file
+ *
+ * @remarks
+ * JSON files are parsed, while `.mjs` and `.ts` files must default export the configuration object. TypeScript files
+ * are transpiled to a temporary directory, with their imports resolved from the original file. The module paths of
+ * plugins are resolved relative to the file.
+ *
+ * @throws {ValidationError} When the configuration is invalid
+ * @throws {FileOperationError} When the file cannot be read or evaluated
+ */
+export async function loadConfigFile(filePath: string): Promise<StoryblokToZodConfig> {
+  const resolvedPath = path.resolve(filePath);
+  const extension = path.extname(resolvedPath);
+
+  if (extension === ".json") {
+    return resolvePluginModulePaths(validateConfig(await safeReadJsonFile(resolvedPath), resolvedPath), resolvedPath);
+  }
+
+  if (extension !== ".mjs" && extension !== ".ts") {
+    throw new FileOperationError(`Unsupported configuration file extension '${extension}'`, resolvedPath, "read");
+  }
+
+  let modulePath = resolvedPath;
+  let transpiledPath: string | undefined;
+  if (extension === ".ts") {
+    transpiledPath = await fs.mkdtemp(path.join(os.tmpdir(), "storyblok-to-zod-"));
+    modulePath = path.join(transpiledPath, path.basename(resolvedPath, extension) + ".mjs");
+    await transpileConfigFile(resolvedPath, modulePath);
+  }
+
+  try {
+    const module = await import(pathToFileURL(modulePath).href);
+    return resolvePluginModulePaths(validateConfig(module.default, resolvedPath), resolvedPath);
+  } catch (error) {
+    if (error instanceof ValidationError || error instanceof FileOperationError) {
+      throw error;
+    }
+    throw new FileOperationError(
+      `Failed to evaluate configuration file: ${error instanceof Error ? error.message : "Unknown error"}`,
+      resolvedPath,
+      "import"
+    );
+  } finally {
+    if (transpiledPath) {
+      await fs.rm(transpiledPath, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Resolves the module paths of the plugins relative to the configuration file, rather than the working directory
+ */
+function resolvePluginModulePaths(config: StoryblokToZodConfig, configPath: string): StoryblokToZodConfig {
+  if (!config.plugins) {
+    return config;
+  }
+
+  const plugins = Object.fromEntries(
+    Object.entries(config.plugins).map(([pluginName, plugin]) => [
+      pluginName,
+      typeof plugin === "string" ? plugin : { module: path.resolve(path.dirname(configPath), plugin.module) },
+    ])
+  );
+
+  return { ...config, plugins };
+}
+
+async function transpileConfigFile(sourcePath: string, outputPath: string): Promise<void> {
+  try {
+    const source = await fs.readFile(sourcePath, "utf-8");
+    const { outputText } = ts.transpileModule(source, {
+      fileName: sourcePath,
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+      transformers: { after: [resolveModuleSpecifiers(sourcePath)] },
+    });
+    await fs.writeFile(outputPath, outputText, "utf-8");
+  } catch (error) {
+    throw new FileOperationError(
+      `Failed to transpile configuration file: ${error instanceof Error ? error.message : "Unknown error"}`,
+      sourcePath,
+      "transpile"
+    );
+  }
+}
+
+/**
+ * Rewrites the module specifiers of a configuration file to absolute URLs, since it is evaluated from another directory
+ *
+ * @remarks
+ * Relative paths are resolved against the directory of the file, and packages are resolved from the file the way
+ * `require` does. Built-in modules, URLs and packages that cannot be resolved are kept as is.
+ */
+function resolveModuleSpecifiers(sourcePath: string): ts.TransformerFactory<ts.SourceFile> {
+  const require = createRequire(sourcePath);
+
+  const resolveSpecifier = (specifier: string): string => {
+    if (specifier.startsWith("./") || specifier.startsWith("../")) {
+      return pathToFileURL(path.resolve(path.dirname(sourcePath), specifier)).href;
+    }
+    if (isBuiltin(specifier) || /^[a-z][a-z0-9+.-]*:/i.test(specifier)) {
+      return specifier;
+    }
+    try {
+      return pathToFileURL(require.resolve(specifier)).href;
+    } catch {
+      return specifier;
+    }
+  };
+
+  return (context) => {
+    const visit = (node: ts.Node): ts.Node => {
+      const specifier = getModuleSpecifier(node);
+      if (!specifier) {
+        return ts.visitEachChild(node, visit, context);
+      }
+
+      const resolvedSpecifier = context.factory.createStringLiteral(resolveSpecifier(specifier.text));
+      return ts.visitEachChild(node, (child) => (child === specifier ? resolvedSpecifier : child), context);
+    };
+
+    return (sourceFile) => ts.visitNode(sourceFile, visit, ts.isSourceFile);
+  };
+}
+
+/**
+ * Returns the module specifier of an import, an export or a dynamic import, e.g. `"./plugins"`
+ */
+function getModuleSpecifier(node: ts.Node): ts.StringLiteral | undefined {
+  if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) && node.moduleSpecifier) {
+    return ts.isStringLiteral(node.moduleSpecifier) ? node.moduleSpecifier : undefined;
+  }
+
+  if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+    const [argument] = node.arguments;
+    return argument && ts.isStringLiteral(argument) ? argument : undefined;
+  }
+
+  return undefined;
+}
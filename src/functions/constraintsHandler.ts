@@ -0,0 +1,192 @@
+import type { ComponentSchemaField, SchemaNode } from "../types";
+import { LogLevel } from "../context/Tracer";
+import type { GenerationContext } from "../context/GenerationContext";
+
+/**
+ * The validation constraints configured on a Storyblok field
+ */
+export interface FieldConstraints {
+  /** Minimum length of a text, value of a number, or number of nested bloks or selected choices */
+  min?: number | undefined;
+  /** Maximum length of a text, value of a number, or number of nested bloks or selected choices */
+  max?: number | undefined;
+  /** Pattern of a text */
+  regex?: string | undefined;
+}
+
+/**
+ * Returns the validation constraints configured on a Storyblok field, see {@link applyFieldConstraints}
+ *
+ * @remarks
+ * A minimum length or number of 0 constrains nothing, so it is returned as no minimum.
+ */
+export function getFieldConstraints(value: ComponentSchemaField): FieldConstraints {
+  const positive = (number: number | undefined) => (number !== undefined && number > 0 ? number : undefined);
+
+  switch (value.type) {
+    case "text":
+    case "textarea":
+    case "markdown":
+      return {
+        min: positive(toNumber(value.minlength)),
+        max: toNumber(value.max_length) ?? toNumber(value.maxlength),
+        regex: value.regex || undefined,
+      };
+    case "number":
+      return { min: toNumber(value.min_value), max: toNumber(value.max_value) };
+    case "bloks":
+      return { min: positive(toNumber(value.minimum)), max: toNumber(value.maximum) };
+    case "options":
+      return { min: positive(toNumber(value.min_options)), max: toNumber(value.max_options) };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Applies the validation constraints configured on a Storyblok field to its Zod schema.
+ *
+ * @param schema - The schema of the field, as returned by convertSbToZodType()
+ * @param value - The Storyblok field configuration object
+ * @param parentComponentName - The name of the component that contains this field
+ * @param context - The context of the current run
+ * @returns The schema refined with the field's constraints
+ *
+ * @remarks
+ * - Text, textarea and markdown fields: `max_length` / `maxlength`, `minlength` (at least 1 when required) and `regex`
+ * - Number fields: `min_value`, `max_value`, `decimals` (0 means integer, otherwise the multiple of its last decimal
+ *   unless `steps` is set) and `steps`
+ * - Bloks fields: `minimum` and `maximum` number of nested bloks
+ * - Options fields: `min_options` and `max_options` number of selected choices
+ *
+ * An empty text is always accepted for non-required text fields, as the editor only validates filled-in values.
+ */
+export function applyFieldConstraints(
+  schema: SchemaNode,
+  value: ComponentSchemaField,
+  parentComponentName: string,
+  context: GenerationContext
+): SchemaNode {
+  switch (value.type) {
+    case "text":
+    case "textarea":
+    case "markdown":
+      return schema.kind === "string" ? applyTextConstraints(schema, value, parentComponentName, context) : schema;
+    case "number":
+      return schema.kind === "number" ? applyNumberConstraints(schema, value) : schema;
+    case "bloks":
+    case "options":
+      return schema.kind === "array" ? applyLengthConstraints(schema, getFieldConstraints(value)) : schema;
+    default:
+      return schema;
+  }
+}
+
+function applyTextConstraints(
+  schema: Extract<SchemaNode, { kind: "string" }>,
+  value: ComponentSchemaField,
+  parentComponentName: string,
+  context: GenerationContext
+): SchemaNode {
+  const { min, max: maxLength, regex: pattern } = getFieldConstraints(value);
+  // The editor does not accept an empty required text
+  const minLength = value.required ? Math.max(min ?? 0, 1) : min;
+
+  const refinedSchema = { ...schema };
+  let rejectsEmptyText = false;
+
+  if (minLength !== undefined) {
+    refinedSchema.minLength = minLength;
+    rejectsEmptyText = true;
+  }
+
+  if (maxLength !== undefined) {
+    refinedSchema.maxLength = maxLength;
+  }
+
+  if (pattern) {
+    try {
+      const regex = new RegExp(pattern);
+      refinedSchema.regex = pattern;
+      rejectsEmptyText ||= !regex.test("");
+    } catch (error) {
+      context.tracer.log(
+        LogLevel.WARN,
+        `Invalid regex '${pattern}' in component '${parentComponentName}': ${
+          error instanceof Error ? error.message : "Unknown error"
+        }. Ignoring it.`
+      );
+    }
+  }
+
+  if (rejectsEmptyText && !value.required) {
+    return { kind: "union", options: [refinedSchema, { kind: "literal", value: "" }] };
+  }
+
+  return refinedSchema;
+}
+
+function applyNumberConstraints(
+  schema: Extract<SchemaNode, { kind: "number" }>,
+  value: ComponentSchemaField
+): SchemaNode {
+  const { min: minValue, max: maxValue } = getFieldConstraints(value);
+  const decimals = toNumber(value.decimals);
+  const steps = toNumber(value.steps);
+
+  const refinedSchema = { ...schema };
+
+  if (decimals === 0) {
+    refinedSchema.int = true;
+  }
+
+  if (minValue !== undefined) {
+    refinedSchema.min = minValue;
+  }
+
+  if (maxValue !== undefined) {
+    refinedSchema.max = maxValue;
+  }
+
+  if (steps !== undefined && steps > 0 && !(decimals === 0 && steps === 1)) {
+    refinedSchema.multipleOf = steps;
+  } else if (decimals !== undefined && decimals > 0 && Number.isInteger(decimals)) {
+    // e.g. 2 decimals -> 0.01
+    refinedSchema.multipleOf = 10 ** -decimals;
+  }
+
+  return refinedSchema;
+}
+
+function applyLengthConstraints(
+  schema: Extract<SchemaNode, { kind: "array" }>,
+  { min: minimum, max: maximum }: FieldConstraints
+): SchemaNode {
+  const refinedSchema = { ...schema };
+
+  if (minimum !== undefined) {
+    refinedSchema.minLength = minimum;
+  }
+
+  if (maximum !== undefined) {
+    refinedSchema.maxLength = maximum;
+  }
+
+  return refinedSchema;
+}
+
+/**
+ * Storyblok stores most numeric settings as strings, and uses an empty string for unset values
+ */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,89 @@
+import path from "path";
+import { LogLevel } from "../context/Tracer";
+import type { GenerationContext } from "../context/GenerationContext";
+import * as CONSTANTS from "../constants";
+import { kebabToCamelCase } from "../utils";
+import { validatePaths } from "../validation";
+import { processStoryblokInterfaces } from "./interfaceProcessor";
+import { loadDatasources } from "./datasourceProcessor";
+import { loadFieldPlugins } from "./fieldPluginHandler";
+import {
+  buildDependencyGraph,
+  convertComponents,
+  discoverComponentFiles,
+  loadComponentGroupsAndTags,
+} from "./componentProcessor";
+
+/**
+ * Loads the pulled Storyblok files and converts every component into the registries of the context
+ *
+ * @param previousContext - Context of a previous run whose native schemas are still up to date, in which case the
+ * Storyblok interface file is not processed again
+ *
+ * @returns `false` if there is no component to convert
+ *
+ * @throws {ValidationError} When the options or the pulled files are invalid
+ * @throws {FileOperationError} When the pulled files cannot be read
+ */
+export async function convertSpace(context: GenerationContext, previousContext?: GenerationContext): Promise<boolean> {
+  const { options, tracer } = context;
+
+  // Validate all required paths
+  await validatePaths(options);
+
+  // Initialize paths
+  const folderPath = path.resolve(options.folder);
+  const jsonPath = path.join(folderPath, "components", options.space);
+  const pathToSbInterfaceFile = path.join(folderPath, "types", CONSTANTS.SB_INTERFACES_FILE);
+  const datasourcesPath = path.join(folderPath, "datasources", options.space);
+
+  tracer.log(
+    LogLevel.DEBUG,
+    `Resolved paths - folder: ${folderPath}, json: ${jsonPath}, types: ${pathToSbInterfaceFile}, datasources: ${datasourcesPath}`
+  );
+
+  // Process Storyblok interface file, unless it has not changed since the previous run
+  if (previousContext) {
+    for (const [interfaceName, schema] of previousContext.nativeSchemas.getAll()) {
+      context.nativeSchemas.set(interfaceName, schema);
+    }
+    tracer.log(LogLevel.DEBUG, `Reusing ${context.nativeSchemas.getAll().size} interfaces of the previous run`);
+  } else {
+    await processStoryblokInterfaces(pathToSbInterfaceFile, context);
+  }
+
+  // Process component files
+  const componentFiles = await discoverComponentFiles(jsonPath, context);
+
+  if (componentFiles.length === 0) {
+    tracer.log(LogLevel.WARN, `No component files found in ${jsonPath}`);
+    return false;
+  }
+
+  tracer.log(LogLevel.VERBOSE, `Found ${componentFiles.length} component JSON files.`);
+
+  // The shared schemas of plugins and datasources must not redeclare the schema of a component
+  const componentNamesBySchemaName = new Map(
+    componentFiles.map((file) => {
+      const componentName = path.basename(file, ".json");
+      return [kebabToCamelCase(componentName) + "Schema", componentName];
+    })
+  );
+
+  // Load pulled datasources (optional)
+  await loadDatasources(datasourcesPath, componentNamesBySchemaName, context);
+
+  // Load custom field type plugins
+  await loadFieldPlugins(componentNamesBySchemaName, context);
+
+  // Load component groups and tags used by bloks whitelists
+  await loadComponentGroupsAndTags(jsonPath, context);
+
+  // Build dependency graph and sort components
+  const sortedComponents = await buildDependencyGraph(componentFiles, jsonPath, context);
+
+  // Convert components
+  await convertComponents(sortedComponents, jsonPath, context);
+
+  return true;
+}
@@ -1,7 +1,8 @@
 import path from "path";
-import { LogLevel, Tracer } from "../statics/Tracer";
-import { kebabToCamelCase, safeReadJsonFile } from "../utils";
-import { ConvertedComponents } from "../statics/ConvertedComponents";
+import { LogLevel } from "../context/Tracer";
+import { kebabToCamelCase, kebabToPascalCase, safeReadJsonFile } from "../utils";
+import type { SchemaDeclaration, SchemaNode, SchemaProperty } from "../types";
+import type { GenerationContext } from "../context/GenerationContext";
 import {
   FileOperationError,
   isValidComponentSchemaField,
@@ -10,25 +11,40 @@ import {
   ValidationError,
 } from "../validation";
 import { convertSbToZodType } from "./typeConverter";
+import { applyFieldConstraints } from "./constraintsHandler";
+import { handleRichtextType } from "./richtextHandler";
+import { handleResolvedRelationType, isRelationField } from "./relationsHandler";
+import type { ComponentRichtextSchemas } from "./richtextHandler";
+
+/** Keys set by Storyblok on every blok, which cannot be used as field names */
+const RESERVED_BLOK_KEYS = ["_uid", "component", "_editable"];
 
 /**
- * Converts a Storyblok component schema JSON file to a Zod schema definition.
+ * Converts a Storyblok component schema JSON file to a schema declaration.
  *
  * @param componentName - The name of the component (kebab-case) to convert, used to locate the JSON file
- * @returns A Promise that resolves to a string containing the generated Zod schema code
+ * @param containingFolder - The folder containing the component JSON files
+ * @param context - The context of the current run, where the converted component is registered
+ * @returns A Promise that resolves to the declaration of the component's schema
  *
  * @remarks
- * This function reads a JSON schema file, parses the Storyblok component schema, and generates corresponding Zod
- * validation schema code. The generated schema:
+ * This function reads a JSON schema file, parses the Storyblok component schema, and generates the corresponding
+ * schema, which is rendered with the targeted Zod API afterwards. The generated schema:
  * - Loads the JSON file for the specified component at `.storyblok/components/${STORYBLOK_SPACE_ID}/`
  * - Formats the component name with correct casing and 'Schema' suffix
+ * - Adds the `_uid`, `component` (as a literal of the component name) and `_editable` keys of every blok
  * - Maps Storyblok field types to appropriate Zod types using convertSbToZodType()
+ * - Refines them with the field's validation constraints (length, regex, range...) using applyFieldConstraints()
+ * - Declares the recursive schemas of richtext fields alongside the component using handleRichtextType()
+ * - Converts the relations of --resolve-relations to the stories they point to using handleResolvedRelationType()
+ * - Replaces the schema of fields overridden in the configuration (e.g. `hero.video_url`), constraints included
  * - Marks non-required fields as optional in the Zod schema
+ * - Adds an optional `<field>__i18n__<locale>` key per locale of --locales to translatable fields
  *
  * @example
  * ```typescript
  * const schema = await convertToZod('hero-section');
- * // Returns: "export const heroSectionSchema = z.object({ ... });"
+ * // Returns: { name: "heroSectionSchema", schema: { kind: "object", properties: [...] } }
  * ```
  *
  * @throws {ValidationError} When component name is invalid or component data is malformed
@@ -36,9 +52,10 @@ import { convertSbToZodType } from "./typeConverter";
  */
 export default async function convertComponentJsonToZod(
   componentName: string,
-  containingFolder: string
-): Promise<string> {
-  Tracer.log(LogLevel.DEBUG, `Enter with componentName='${componentName}'`, "convertComponentJsonToZod");
+  containingFolder: string,
+  context: GenerationContext
+): Promise<SchemaDeclaration> {
+  context.tracer.log(LogLevel.DEBUG, `Enter with componentName='${componentName}'`, "convertComponentJsonToZod");
 
   try {
     // Validate component name format
@@ -47,9 +64,9 @@ export default async function convertComponentJsonToZod(
     // Load and validate the JSON file for the component
     const inputFilePath = path.join(containingFolder, componentName + ".json");
 
-    const jsonData = await safeReadJsonFile(inputFilePath, (data) => validateComponentData(data, componentName));
+    const jsonData = await safeReadJsonFile(inputFilePath, (data) => validateComponentData(data, componentName, context.tracer));
 
-    Tracer.log(
+    context.tracer.log(
       LogLevel.DEBUG,
       `Loaded and validated JSON for component '${componentName}.json'`,
       "convertComponentJsonToZod"
@@ -57,28 +74,40 @@ export default async function convertComponentJsonToZod(
 
     // Format the component name to camelCase and add 'Schema' suffix
     const componentNameCamel = kebabToCamelCase(componentName) + "Schema";
-    let outputContent = `export const ${componentNameCamel} = z.object({\n`;
+
+    // Keys Storyblok adds to every blok, `component` being the discriminator of bloks fields
+    const properties: SchemaProperty[] = [
+      { name: "_uid", schema: { kind: "string" } },
+      { name: "component", schema: { kind: "literal", value: componentName } },
+      { name: "_editable", schema: { kind: "optional", inner: { kind: "string" } } },
+    ];
 
     const schemaData = jsonData.schema;
+    const richtextSchemas: ComponentRichtextSchemas = { declarations: [], documentSchemaNames: new Map() };
 
     for (const propName of Object.keys(schemaData)) {
       const value = schemaData[propName];
 
+      if (RESERVED_BLOK_KEYS.includes(propName)) {
+        context.tracer.log(LogLevel.WARN, `Field '${propName}' in component '${componentName}' is a reserved key. Skipping.`);
+        continue;
+      }
+
       if (!value) {
-        Tracer.log(LogLevel.WARN, `Field '${propName}' in component '${componentName}' is null/undefined. Skipping.`);
+        context.tracer.log(LogLevel.WARN, `Field '${propName}' in component '${componentName}' is null/undefined. Skipping.`);
         continue;
       }
 
       if (!isValidComponentSchemaField(value)) {
-        Tracer.log(
+        context.tracer.log(
           LogLevel.WARN,
           `Field '${propName}' in component '${componentName}' has invalid structure. Defaulting to 'z.any()'.`
         );
-        outputContent += `  ${propName}: z.any(),\n`;
+        properties.push({ name: propName, schema: { kind: "any" } });
         continue;
       }
 
-      Tracer.log(LogLevel.DEBUG, `propName: '${propName}', value.type: '${value.type}'`, "convertComponentJsonToZod");
+      context.tracer.log(LogLevel.DEBUG, `propName: '${propName}', value.type: '${value.type}'`, "convertComponentJsonToZod");
 
       // Skip certain types
       const skippableTypes = ["tab", "section"];
@@ -88,25 +117,49 @@ export default async function convertComponentJsonToZod(
 
       const required = value.required || false;
 
-      const zodType = convertSbToZodType(value, componentName);
+      const fieldPath = `${componentName}.${propName}`;
+      const overriddenSchema = context.options.fieldOverrides.get(fieldPath);
+      if (overriddenSchema) {
+        context.appliedFieldOverrides.add(fieldPath);
+        context.tracer.log(LogLevel.VERBOSE, `Field '${fieldPath}' is overridden by the configuration`);
+      }
 
-      outputContent += `  ${propName}: ${zodType}`;
-      if (!required) {
-        outputContent += `.optional()`;
+      const convertField = (): SchemaNode => {
+        if (value.type === "richtext") {
+          return handleRichtextType(value, propName, componentName, richtextSchemas, context);
+        }
+
+        const fieldSchema =
+          isRelationField(value) && context.options.resolvedRelations.includes(fieldPath)
+            ? handleResolvedRelationType(value, componentName, context)
+            : convertSbToZodType(value, componentName, context);
+        return applyFieldConstraints(fieldSchema, value, componentName, context);
+      };
+      const schema = overriddenSchema ?? convertField();
+
+      properties.push({ name: propName, schema: required ? schema : { kind: "optional", inner: schema } });
+
+      // Field-level translations, as returned by some export modes of Storyblok
+      if (value.translatable) {
+        for (const locale of context.options.locales) {
+          properties.push({ name: `${propName}__i18n__${locale}`, schema: { kind: "optional", inner: schema } });
+        }
       }
-      outputContent += ",\n";
     }
 
-    outputContent += "});\n";
+    const declaration: SchemaDeclaration = { name: componentNameCamel, schema: { kind: "object", properties } };
+    if (context.dependencyGraph.isInCycle(componentName)) {
+      declaration.recursiveType = kebabToPascalCase(componentName) + "Blok";
+    }
 
-    ConvertedComponents.add(componentName, outputContent);
+    context.convertedComponents.add(componentName, declaration, richtextSchemas.declarations);
 
-    Tracer.log(LogLevel.DEBUG, `Successfully converted component '${componentName}'`);
+    context.tracer.log(LogLevel.DEBUG, `Successfully converted component '${componentName}'`);
 
-    return outputContent;
+    return declaration;
   } catch (error) {
     if (error instanceof ValidationError || error instanceof FileOperationError) {
-      Tracer.log(LogLevel.ERROR, `Failed to convert component '${componentName}': ${error.message}`);
+      context.tracer.log(LogLevel.ERROR, `Failed to convert component '${componentName}': ${error.message}`);
       throw error;
     }
 
@@ -115,7 +168,7 @@ export default async function convertComponentJsonToZod(
         error instanceof Error ? error.message : "Unknown error"
       }`
     );
-    Tracer.log(LogLevel.ERROR, unknownError.message);
+    context.tracer.log(LogLevel.ERROR, unknownError.message);
     throw unknownError;
   }
 }
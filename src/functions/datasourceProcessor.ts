@@ -0,0 +1,152 @@
+import fs from "fs/promises";
+import path from "path";
+import { LogLevel } from "../context/Tracer";
+import type { GenerationContext } from "../context/GenerationContext";
+import { safeReadJsonFile, toCamelCaseIdentifier } from "../utils";
+import { FileOperationError, isValidDirectoryPath, ValidationError } from "../validation";
+import { buildChoicesSchema } from "./optionsHandler";
+import type { SchemaDeclaration, SchemaNode } from "../types";
+
+/**
+ * Load the datasources pulled with Storyblok's CLI `datasources pull` command
+ *
+ * @remarks
+ * Both layouts of the CLI are supported: a single `datasources.json` file containing every datasource, or one
+ * `<slug>.json` file per datasource. A datasource file may either contain the datasource object (with its `entries`)
+ * or directly the array of entries. A missing folder is not an error since datasources are optional.
+ *
+ * @param componentNamesBySchemaName - Names of the components to convert, keyed by the name of their schema. A
+ * datasource whose schema would have the same name is skipped.
+ */
+export async function loadDatasources(
+  datasourcesPath: string,
+  componentNamesBySchemaName: Map<string, string>,
+  context: GenerationContext
+): Promise<void> {
+  if (!(await isValidDirectoryPath(datasourcesPath))) {
+    context.tracer.log(LogLevel.VERBOSE, `No datasources folder found at ${datasourcesPath}`);
+    return;
+  }
+
+  let files: string[];
+  try {
+    files = (await fs.readdir(datasourcesPath)).filter((file) => file.endsWith(".json"));
+  } catch (error) {
+    throw new FileOperationError(
+      `Failed to discover datasource files: ${error instanceof Error ? error.message : "Unknown error"}`,
+      datasourcesPath,
+      "readdir"
+    );
+  }
+
+  for (const fileName of files) {
+    try {
+      const data = await safeReadJsonFile(path.join(datasourcesPath, fileName));
+      const fallbackSlug = path.basename(fileName, ".json");
+
+      if (isDatasourceList(data)) {
+        // Consolidated file: an array of datasources
+        for (const datasource of data) {
+          registerDatasource(datasource.slug, datasource.entries, fileName, componentNamesBySchemaName, context);
+        }
+      } else if (Array.isArray(data)) {
+        // Separate file containing only the entries
+        registerDatasource(fallbackSlug, data, fileName, componentNamesBySchemaName, context);
+      } else if (data && typeof data === "object") {
+        registerDatasource(data.slug ?? fallbackSlug, data.entries, fileName, componentNamesBySchemaName, context);
+      } else {
+        throw new ValidationError(`Unexpected datasource format in '${fileName}'`, { fileName });
+      }
+    } catch (error) {
+      context.tracer.log(
+        LogLevel.WARN,
+        `Failed to load datasource file '${fileName}': ${
+          error instanceof Error ? error.message : "Unknown error"
+        }. Skipping.`
+      );
+    }
+  }
+}
+
+/**
+ * Returns the schema name of a datasource, e.g. "colors" -> "colorsDatasourceSchema"
+ */
+export function getDatasourceSchemaName(slug: string): string {
+  return toCamelCaseIdentifier(slug) + "DatasourceSchema";
+}
+
+/**
+ * Generate the shared schemas of the datasources used by components
+ */
+export function generateDatasourceSchemas(context: GenerationContext): SchemaDeclaration[] {
+  const declarations: SchemaDeclaration[] = [];
+
+  for (const [slug, values] of context.datasources.getUsed()) {
+    const schema: SchemaNode = values.length > 0 ? buildChoicesSchema(values) : { kind: "string" };
+    declarations.push({ name: getDatasourceSchemaName(slug), schema });
+  }
+
+  return declarations;
+}
+
+function isDatasourceList(data: unknown): data is { slug?: unknown; entries?: unknown }[] {
+  return (
+    Array.isArray(data) &&
+    data.length > 0 &&
+    data.every((item) => item && typeof item === "object" && "entries" in item)
+  );
+}
+
+function registerDatasource(
+  slug: unknown,
+  entries: unknown,
+  fileName: string,
+  componentNamesBySchemaName: Map<string, string>,
+  context: GenerationContext
+): void {
+  if (typeof slug !== "string" || !slug) {
+    throw new ValidationError(`Datasource in '${fileName}' has no slug`, { fileName });
+  }
+
+  if (!Array.isArray(entries)) {
+    throw new ValidationError(`Datasource '${slug}' in '${fileName}' has no entries`, { fileName, slug });
+  }
+
+  const values: string[] = [];
+  for (const entry of entries) {
+    const value = entry?.value;
+    if (typeof value === "string" && !values.includes(value)) {
+      values.push(value);
+    }
+  }
+
+  if (values.length === 0) {
+    context.tracer.log(LogLevel.WARN, `Datasource '${slug}' has no entries. Its values will not be restricted.`);
+  }
+
+  // e.g. the "colors" datasource and the "colors-datasource" component
+  const schemaName = getDatasourceSchemaName(slug);
+  const clashingComponentName = componentNamesBySchemaName.get(schemaName);
+  if (clashingComponentName !== undefined) {
+    context.tracer.log(
+      LogLevel.WARN,
+      `Datasource '${slug}' would be declared as '${schemaName}' like component '${clashingComponentName}'. Skipping.`
+    );
+    return;
+  }
+
+  // Slugs that only differ by their punctuation, e.g. "a_b" and "a-b", would be declared by the same schema
+  const clashingSlug = context.datasources
+    .getSlugs()
+    .find((other) => other !== slug && getDatasourceSchemaName(other) === schemaName);
+  if (clashingSlug) {
+    context.tracer.log(
+      LogLevel.WARN,
+      `Datasource '${slug}' would be declared as '${schemaName}' like datasource '${clashingSlug}'. Skipping.`
+    );
+    return;
+  }
+
+  context.datasources.set(slug, values);
+  context.tracer.log(LogLevel.DEBUG, `Loaded datasource '${slug}' with ${values.length} entries`);
+}
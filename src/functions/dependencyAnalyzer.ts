@@ -1,13 +1,13 @@
-import { LogLevel, Tracer } from "../statics/Tracer";
+import { LogLevel } from "../context/Tracer";
 import { Project, SourceFile, SyntaxKind } from "ts-morph";
-import { ConvertedComponents } from "../statics/ConvertedComponents";
-import { NativeSchemaRegistry } from "../statics/NativeSchemaRegistry";
+import type { GenerationContext } from "../context/GenerationContext";
+import { DEFAULT_ZOD_TARGET, renderSchemaDeclaration } from "./zodRenderer";
 
 /**
  * Analyzes component schemas to determine which native schemas are actually used
  */
-export function analyzeNativeSchemaDependencies(): void {
-  Tracer.log(LogLevel.DEBUG, "Starting native schema dependency analysis", "analyzeNativeSchemaDependencies");
+export function analyzeNativeSchemaDependencies(context: GenerationContext): void {
+  context.tracer.log(LogLevel.DEBUG, "Starting native schema dependency analysis", "analyzeNativeSchemaDependencies");
 
   // Create a ts-morph project to analyze the generated schemas
   const project = new Project({
@@ -18,12 +18,14 @@ export function analyzeNativeSchemaDependencies(): void {
   });
 
   // Get all converted component schemas and create a source file for analysis
-  const allComponentContent = ConvertedComponents.getAllValues().join("\n");
+  const allComponentContent = context.convertedComponents.getAllValues()
+    .map((declaration) => renderSchemaDeclaration(declaration, DEFAULT_ZOD_TARGET))
+    .join("\n");
   const componentSourceFile = project.createSourceFile("components.ts", allComponentContent);
 
   // Get all native schema names from the registry and convert them to schema names
   const nativeSchemaReferences = new Map<string, string>();
-  for (const interfaceName of NativeSchemaRegistry.getAll().keys()) {
+  for (const interfaceName of context.nativeSchemas.getAll().keys()) {
     const schemaName = interfaceNameToSchemaName(interfaceName);
     nativeSchemaReferences.set(schemaName, interfaceName);
   }
@@ -31,21 +33,21 @@ export function analyzeNativeSchemaDependencies(): void {
   // Check each native schema to see if it's referenced in component schemas
   for (const [schemaName, interfaceName] of nativeSchemaReferences.entries()) {
     if (isSchemaReferencedInSourceFile(schemaName, componentSourceFile)) {
-      NativeSchemaRegistry.markAsUsed(interfaceName);
-      Tracer.log(LogLevel.DEBUG, `Native schema '${interfaceName}' (${schemaName}) is used by components`);
+      context.nativeSchemas.markAsUsed(interfaceName);
+      context.tracer.log(LogLevel.DEBUG, `Native schema '${interfaceName}' (${schemaName}) is used by components`);
     } else {
-      Tracer.log(LogLevel.DEBUG, `Native schema '${interfaceName}' (${schemaName}) is NOT used by components`);
+      context.tracer.log(LogLevel.DEBUG, `Native schema '${interfaceName}' (${schemaName}) is NOT used by components`);
     }
   }
 
   // Also check for indirect dependencies - native schemas that reference other native schemas
-  const usedSchemas = NativeSchemaRegistry.getUsed();
+  const usedSchemas = context.nativeSchemas.getUsed();
   for (const [, schemaContent] of usedSchemas.entries()) {
-    findIndirectDependencies(schemaContent, nativeSchemaReferences, project);
+    findIndirectDependencies(schemaContent, nativeSchemaReferences, project, context);
   }
 
-  const stats = NativeSchemaRegistry.getUsageStats();
-  Tracer.log(
+  const stats = context.nativeSchemas.getUsageStats();
+  context.tracer.log(
     LogLevel.INFO, 
     `Dependency analysis complete: ${stats.used}/${stats.total} native schemas are used (${stats.unused} unused schemas excluded)`
   );
@@ -78,7 +80,8 @@ function isSchemaReferencedInSourceFile(schemaName: string, sourceFile: SourceFi
 function findIndirectDependencies(
   currentSchemaContent: string,
   nativeSchemaReferences: Map<string, string>,
-  project: Project
+  project: Project,
+  context: GenerationContext
 ): void {
   // Create a source file for the current schema to analyze its dependencies
   const schemaSourceFile = project.createSourceFile(`temp_${Date.now()}.ts`, currentSchemaContent);
@@ -93,13 +96,17 @@ function findIndirectDependencies(
     if (nativeSchemaReferences.has(identifierText)) {
       const referencedInterfaceName = nativeSchemaReferences.get(identifierText)!;
       
-      if (NativeSchemaRegistry.has(referencedInterfaceName) && !NativeSchemaRegistry.isUsed(referencedInterfaceName)) {
-        NativeSchemaRegistry.markAsUsed(referencedInterfaceName);
-        Tracer.log(LogLevel.DEBUG, `Native schema '${referencedInterfaceName}' is used indirectly by other native schemas`);
+      const { nativeSchemas } = context;
+      if (nativeSchemas.has(referencedInterfaceName) && !nativeSchemas.isUsed(referencedInterfaceName)) {
+        context.nativeSchemas.markAsUsed(referencedInterfaceName);
+        context.tracer.log(
+          LogLevel.DEBUG,
+          `Native schema '${referencedInterfaceName}' is used indirectly by other native schemas`
+        );
         
         // Recursively find dependencies of this referenced schema
-        const referencedSchemaContent = NativeSchemaRegistry.get(referencedInterfaceName)!;
-        findIndirectDependencies(referencedSchemaContent, nativeSchemaReferences, project);
+        const referencedSchemaContent = context.nativeSchemas.get(referencedInterfaceName)!;
+        findIndirectDependencies(referencedSchemaContent, nativeSchemaReferences, project, context);
       }
     }
   }
@@ -1,37 +1,47 @@
 import chalk from "chalk";
-import { LogLevel, Tracer } from "../statics/Tracer";
 import {
   FileOperationError,
   ValidationError,
 } from "../validation";
 
 /**
- * Centralized error handling
+ * Centralized error handling of the CLI, printing the error and exiting the process
+ *
+ * @param showStack - Whether to print the stack trace of unexpected errors
  */
-export async function handleError(error: unknown): Promise<void> {
+export async function handleError(error: unknown, showStack: boolean = false): Promise<void> {
+  reportError(error, showStack);
+  process.exit(1);
+}
+
+/**
+ * Prints an error without exiting the process, e.g. in watch mode
+ *
+ * @param showStack - Whether to print the stack trace of unexpected errors
+ */
+export function reportError(error: unknown, showStack: boolean = false): void {
   if (error instanceof ValidationError) {
     console.error(chalk.red("Validation Error:"), error.message);
     if (error.context) {
       console.error(chalk.gray("Context:"), JSON.stringify(error.context, null, 2));
     }
-    process.exit(1);
+    return;
   }
 
   if (error instanceof FileOperationError) {
     console.error(chalk.red("File Operation Error:"), error.message);
     console.error(chalk.gray("File:"), error.filePath);
     console.error(chalk.gray("Operation:"), error.operation);
-    process.exit(1);
+    return;
   }
 
   if (error instanceof Error) {
     console.error(chalk.red("Unexpected Error:"), error.message);
-    if (Tracer.logLevel >= LogLevel.DEBUG && error.stack) {
+    if (showStack && error.stack) {
       console.error(chalk.gray("Stack:"), error.stack);
     }
-    process.exit(1);
+    return;
   }
 
   console.error(chalk.red("Unknown Error:"), String(error));
-  process.exit(1);
 }
\ No newline at end of file
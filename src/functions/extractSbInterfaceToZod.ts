@@ -1,6 +1,7 @@
 import { generate } from "ts-to-zod";
-import { LogLevel, Tracer } from "../statics/Tracer";
-import { CLIOptions, ValidationError, isNonEmptyString } from "../validation";
+import { LogLevel } from "../context/Tracer";
+import { ValidationError, isNonEmptyString } from "../validation";
+import type { GenerationContext } from "../context/GenerationContext";
 import { InterfaceDeclaration } from "ts-morph";
 import { pascalToCamelCase } from "../utils";
 
@@ -21,15 +22,15 @@ import { pascalToCamelCase } from "../utils";
  */
 export default function extractSbInterfaceToZod(
   interfaceDeclaration: InterfaceDeclaration,
-  options: CLIOptions
+  context: GenerationContext
 ): string {
   const interfaceName = interfaceDeclaration.getName();
-  Tracer.log(LogLevel.DEBUG, `Enter with interfaceName='${interfaceName}'`, "extractSbInterfaceToZod");
+  context.tracer.log(LogLevel.DEBUG, `Enter with interfaceName='${interfaceName}'`, "extractSbInterfaceToZod");
 
   const interfaceDefinition = interfaceDeclaration.getText();
   const interfaceProperties = interfaceDeclaration.getProperties();
 
-  Tracer.log(
+  context.tracer.log(
     LogLevel.DEBUG,
     `Found interface '${interfaceName}' with ${interfaceProperties.length} properties`,
     "extractSbInterfaceToZod"
@@ -57,11 +58,11 @@ export default function extractSbInterfaceToZod(
     extendsExpressions[0] &&
     (extendsExpressions[0].getText().startsWith("Array<") || extendsExpressions[0].getText().endsWith("[]"));
 
-  if (hasMultiAssetExtensionSignature && options.extendsArray) {
+  if (hasMultiAssetExtensionSignature && context.options.extendsArray) {
     // In that case we want to generate a Zod schema like this:
     // const storyblokMultiassetSchema = z.array(storyblokAssetSchema);
 
-    Tracer.log(
+    context.tracer.log(
       LogLevel.VERBOSE,
       `Interface '${interfaceName}' has signature of type 'storyblokMultiassetSchema'. Bypassing 'ts-to-zod'...`,
       "extractSbInterfaceToZod"
@@ -121,9 +122,9 @@ export default function extractSbInterfaceToZod(
     const cleanedSchema = lines.slice(2).join("\n").trim();
 
     if (!cleanedSchema) {
-      Tracer.log(LogLevel.WARN, `Interface '${interfaceName}' results in an empty Zod definition`);
+      context.tracer.log(LogLevel.WARN, `Interface '${interfaceName}' results in an empty Zod definition`);
     } else {
-      Tracer.log(
+      context.tracer.log(
         LogLevel.DEBUG,
         `Successfully generated Zod schema for interface '${interfaceName}'`,
         "extractSbInterfaceToZod"
@@ -133,7 +134,7 @@ export default function extractSbInterfaceToZod(
     return cleanedSchema;
   } catch (error) {
     if (error instanceof ValidationError) {
-      Tracer.log(LogLevel.ERROR, `Validation error extracting interface '${interfaceName}': ${error.message}`);
+      context.tracer.log(LogLevel.ERROR, `Validation error extracting interface '${interfaceName}': ${error.message}`);
       throw error;
     }
 
@@ -143,7 +144,7 @@ export default function extractSbInterfaceToZod(
       }`
     );
 
-    Tracer.log(LogLevel.ERROR, wrappedError.message);
+    context.tracer.log(LogLevel.ERROR, wrappedError.message);
     throw wrappedError;
   }
 }
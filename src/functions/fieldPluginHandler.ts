@@ -0,0 +1,138 @@
+import { pathToFileURL } from "url";
+import type { ComponentSchemaField, SchemaNode } from "../types";
+import { LogLevel } from "../context/Tracer";
+import type { GenerationContext } from "../context/GenerationContext";
+import { toCamelCaseIdentifier } from "../utils";
+import { FileOperationError, ValidationError } from "../validation";
+import { parseZodExpressionText } from "./zodExpressionParser";
+
+/**
+ * Registers the custom field type plugins of the options, importing the modules of generator plugins
+ *
+ * @param componentNamesBySchemaName - Names of the components to convert, keyed by the name of their schema
+ *
+ * @throws {FileOperationError} When a plugin module cannot be imported
+ * @throws {ValidationError} When a plugin module does not export a generator by default, or when the schema of a
+ * plugin would have the same name as the one of another plugin or of a component
+ */
+export async function loadFieldPlugins(
+  componentNamesBySchemaName: Map<string, string>,
+  context: GenerationContext
+): Promise<void> {
+  // Plugin names that only differ by their punctuation, e.g. "a_b" and "a-b", would be declared by the same schema
+  const pluginNamesBySchemaName = new Map<string, string>();
+  for (const pluginName of context.options.fieldPlugins.keys()) {
+    const schemaName = getFieldPluginSchemaName(pluginName);
+    // e.g. the "sb-seo" plugin and the "sb-seo-plugin" component
+    const clashingComponentName = componentNamesBySchemaName.get(schemaName);
+    if (clashingComponentName !== undefined) {
+      throw new ValidationError(
+        `Plugin '${pluginName}' and component '${clashingComponentName}' would both be declared as '${schemaName}'`,
+        { pluginName, clashingComponentName }
+      );
+    }
+
+    const clashingPluginName = pluginNamesBySchemaName.get(schemaName);
+    if (clashingPluginName !== undefined) {
+      throw new ValidationError(
+        `Plugins '${clashingPluginName}' and '${pluginName}' would both be declared as '${schemaName}'`,
+        { pluginName, clashingPluginName }
+      );
+    }
+    pluginNamesBySchemaName.set(schemaName, pluginName);
+  }
+
+  for (const [pluginName, plugin] of context.options.fieldPlugins) {
+    if (plugin.kind === "expression") {
+      context.fieldPlugins.set(pluginName, () => plugin.schema);
+      continue;
+    }
+
+    let module: { default?: unknown };
+    try {
+      module = await import(pathToFileURL(plugin.modulePath).href);
+    } catch (error) {
+      throw new FileOperationError(
+        `Failed to import plugin module: ${error instanceof Error ? error.message : "Unknown error"}`,
+        plugin.modulePath,
+        "import"
+      );
+    }
+
+    const generator = module.default;
+    if (typeof generator !== "function") {
+      throw new ValidationError(`Module of plugin '${pluginName}' must export a function by default`, {
+        pluginName,
+        modulePath: plugin.modulePath,
+      });
+    }
+
+    context.fieldPlugins.set(pluginName, (field) => {
+      const expression: unknown = generator(field);
+      const schema = typeof expression === "string" ? parseZodExpressionText(expression) : undefined;
+      if (!schema) {
+        throw new ValidationError(
+          `Plugin '${pluginName}' must return a valid Zod expression calling 'z', got ${JSON.stringify(expression)}`,
+          { pluginName }
+        );
+      }
+      return schema;
+    });
+  }
+
+  context.tracer.log(LogLevel.DEBUG, `Loaded ${context.options.fieldPlugins.size} custom field type plugins`);
+}
+
+/**
+ * Returns the schema name of a plugin, e.g. "sb-colorpicker" -> "sbColorpickerPluginSchema"
+ *
+ * @param index - Index of the schema among the distinct schemas generated for the plugin, suffixing all but the first
+ */
+export function getFieldPluginSchemaName(pluginName: string, index = 0): string {
+  const baseName = toCamelCaseIdentifier(pluginName) + "Plugin";
+  return `${baseName}${index > 0 ? index + 1 : ""}Schema`;
+}
+
+/**
+ * Handles the conversion of 'custom' type fields, whose schema is given by the plugin of their `field_type`
+ *
+ * @remarks
+ * Each distinct schema of a plugin is declared once and referenced by its fields. Generator plugins may return
+ * different schemas depending on the options of the field, in which case the schemas are numbered, e.g.
+ * `productPickerPlugin2Schema`. Fields of unregistered plugins fall back to `z.any()`.
+ */
+export function handleCustomType(
+  value: ComponentSchemaField,
+  parentComponentName: string,
+  context: GenerationContext
+): SchemaNode {
+  const pluginName = value.field_type;
+  const generate = pluginName ? context.fieldPlugins.get(pluginName) : undefined;
+
+  if (!pluginName || !generate) {
+    context.tracer.log(
+      LogLevel.WARN,
+      `No plugin registered for custom field type '${pluginName}' in component '${parentComponentName}'. ` +
+        "Using fallback."
+    );
+    return { kind: "any", comment: `Unknown plugin: ${pluginName}` };
+  }
+
+  const schema = generate(value);
+  const usedSchemas = context.fieldPlugins.getUsedSchemas(pluginName);
+  const existingDeclaration = usedSchemas.find(
+    (declaration) => JSON.stringify(declaration.schema) === JSON.stringify(schema)
+  );
+  if (existingDeclaration) {
+    return { kind: "ref", name: existingDeclaration.name };
+  }
+
+  const name = getFieldPluginSchemaName(pluginName, usedSchemas.length);
+  context.fieldPlugins.addUsedSchema(pluginName, { name, schema });
+  context.tracer.log(
+    LogLevel.DEBUG,
+    `Plugin '${pluginName}' generated '${name}' for component '${parentComponentName}'`
+  );
+
+  return { kind: "ref", name };
+}
@@ -1,24 +1,27 @@
 import { Project } from "ts-morph";
-import { LogLevel, Tracer } from "../statics/Tracer";
-import { NativeSchemaRegistry } from "../statics/NativeSchemaRegistry";
+import { LogLevel } from "../context/Tracer";
+import type { GenerationContext } from "../context/GenerationContext";
 import extractSbInterfaceToZod from "./extractSbInterfaceToZod";
-import { CLIOptions, FileOperationError, ValidationError } from "../validation";
+import { FileOperationError, ValidationError } from "../validation";
 
 /**
  * Process Storyblok interface definitions
  */
-export async function processStoryblokInterfaces(pathToSbInterfaceFile: string, options: CLIOptions): Promise<void> {
+export async function processStoryblokInterfaces(
+  pathToSbInterfaceFile: string,
+  context: GenerationContext
+): Promise<void> {
   // Directly use NativeSchemaRegistry for storing schemas
 
   try {
-    Tracer.log(LogLevel.DEBUG, `Processing Storyblok interfaces from: ${pathToSbInterfaceFile}`);
+    context.tracer.log(LogLevel.DEBUG, `Processing Storyblok interfaces from: ${pathToSbInterfaceFile}`);
 
     // Use ts-morph to analyze the file
     const storyblokTypesDefinitionFile = new Project().addSourceFileAtPath(pathToSbInterfaceFile);
     const interfaces = storyblokTypesDefinitionFile.getInterfaces();
 
     if (interfaces.length === 0) {
-      Tracer.log(LogLevel.WARN, "No interfaces found in Storyblok types file");
+      context.tracer.log(LogLevel.WARN, "No interfaces found in Storyblok types file");
       return;
     }
 
@@ -26,18 +29,18 @@ export async function processStoryblokInterfaces(pathToSbInterfaceFile: string,
       const interfaceName = currentInterface.getName();
 
       try {
-        const schema = extractSbInterfaceToZod(currentInterface, options);
-        NativeSchemaRegistry.set(interfaceName, schema);
-        Tracer.log(LogLevel.DEBUG, `Processed interface: ${interfaceName}`);
+        const schema = extractSbInterfaceToZod(currentInterface, context);
+        context.nativeSchemas.set(interfaceName, schema);
+        context.tracer.log(LogLevel.DEBUG, `Processed interface: ${interfaceName}`);
       } catch (error) {
-        Tracer.log(
+        context.tracer.log(
           LogLevel.WARN,
           `Failed to process interface '${interfaceName}': ${error instanceof Error ? error.message : "Unknown error"}`
         );
       }
     }
 
-    Tracer.log(LogLevel.VERBOSE, `Processed ${NativeSchemaRegistry.getAll().size} interfaces`);
+    context.tracer.log(LogLevel.VERBOSE, `Processed ${context.nativeSchemas.getAll().size} interfaces`);
   } catch (error) {
     if (error instanceof ValidationError || error instanceof FileOperationError) {
       throw error;
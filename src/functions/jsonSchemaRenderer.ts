@@ -0,0 +1,152 @@
+import type { SchemaNode, SchemaProperty } from "../types";
+
+/** Dialect of the generated JSON Schema documents */
+export const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+/**
+ * A JSON Schema, e.g. `{ "type": "string", "format": "uuid" }`
+ */
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * Returns the reference to a schema declared in the `$defs` of the document, e.g. `#/$defs/heroSchema`
+ */
+export function getJsonSchemaRef(name: string): string {
+  return `#/$defs/${name}`;
+}
+
+/**
+ * Renders a schema node as a JSON Schema
+ *
+ * @remarks
+ * The JSON Schema accepts the same data as the Zod schema, with a few approximations:
+ * - Objects accept unknown keys whether they are loose or not, since Zod strips them instead of rejecting them
+ * - Extended objects are the intersection of their base and of their own properties, so their properties narrow the
+ * ones of the base instead of replacing them
+ * - `undefined` is only meaningful as an optional property, and expressions that could not be parsed accept anything
+ */
+export function renderJsonSchemaNode(node: SchemaNode): JsonSchema {
+  const rendered = renderWithoutDescription(node);
+
+  if (node.description === undefined) {
+    return rendered;
+  }
+
+  // A reference with sibling keywords is allowed since draft 2019-09
+  return { ...rendered, description: node.description };
+}
+
+function renderWithoutDescription(node: SchemaNode): JsonSchema {
+  switch (node.kind) {
+    case "string":
+      return withKeywords(
+        { type: "string" },
+        {
+          format: node.format ? STRING_FORMATS[node.format] : undefined,
+          minLength: node.minLength,
+          maxLength: node.maxLength,
+          pattern: node.regex,
+        }
+      );
+
+    case "number":
+      return withKeywords(
+        { type: node.int ? "integer" : "number" },
+        { minimum: node.min, maximum: node.max, multipleOf: node.multipleOf }
+      );
+
+    case "boolean":
+    case "null":
+      return { type: node.kind };
+
+    case "undefined":
+      return { not: {} };
+
+    case "unknown":
+      return {};
+
+    case "any":
+      return node.comment ? { $comment: node.comment } : {};
+
+    case "literal":
+      return { const: node.value };
+
+    case "enum":
+      return { type: "string", enum: node.values };
+
+    case "array":
+      return withKeywords(
+        { type: "array", items: renderJsonSchemaNode(node.items) },
+        { minItems: node.minLength, maxItems: node.maxLength }
+      );
+
+    case "object":
+      return renderObject(node.properties);
+
+    case "extend":
+      return { allOf: [renderJsonSchemaNode(node.base), renderObject(node.properties)] };
+
+    case "record":
+      return { type: "object", additionalProperties: renderJsonSchemaNode(node.values) };
+
+    case "union":
+      return { anyOf: node.options.map(renderJsonSchemaNode) };
+
+    // The options are exclusive, since each of them has its own value of the discriminator
+    case "discriminatedUnion":
+      return { oneOf: node.options.map(renderJsonSchemaNode) };
+
+    case "intersection":
+      return { allOf: [renderJsonSchemaNode(node.left), renderJsonSchemaNode(node.right)] };
+
+    // Optional values are handled by the object they are a property of
+    case "optional":
+      return renderJsonSchemaNode(node.inner);
+
+    case "nullable":
+      return { anyOf: [renderJsonSchemaNode(node.inner), { type: "null" }] };
+
+    // References are resolved lazily, so circular schemas need no special treatment
+    case "lazy":
+      return renderJsonSchemaNode(node.inner);
+
+    case "ref":
+      return { $ref: getJsonSchemaRef(node.name) };
+
+    case "raw":
+      return { $comment: `Unsupported Zod expression: ${node.expression}` };
+  }
+}
+
+const STRING_FORMATS: Record<"datetime" | "uuid" | "url" | "email", string> = {
+  datetime: "date-time",
+  uuid: "uuid",
+  url: "uri",
+  email: "email",
+};
+
+function renderObject(properties: SchemaProperty[]): JsonSchema {
+  const schema: JsonSchema = {
+    type: "object",
+    properties: Object.fromEntries(properties.map(({ name, schema }) => [name, renderJsonSchemaNode(schema)])),
+  };
+
+  const required = properties.filter(({ schema }) => schema.kind !== "optional").map(({ name }) => name);
+  if (required.length > 0) {
+    schema.required = required;
+  }
+
+  return schema;
+}
+
+/**
+ * Adds the keywords that have a value to a schema
+ */
+function withKeywords(schema: JsonSchema, keywords: Record<string, unknown>): JsonSchema {
+  for (const [keyword, value] of Object.entries(keywords)) {
+    if (value !== undefined) {
+      schema[keyword] = value;
+    }
+  }
+  return schema;
+}
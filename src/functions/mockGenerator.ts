@@ -0,0 +1,446 @@
+import path from "path";
+import chalk from "chalk";
+import type { SchemaNode, SchemaProperty } from "../types";
+import { LogLevel } from "../context/Tracer";
+import type { GenerationContext } from "../context/GenerationContext";
+import { kebabToCamelCase, safeWriteFile } from "../utils";
+import { ValidationError } from "../validation";
+import type { MockOptions } from "../validation";
+import { generateSchemaDeclarations } from "./outputGenerator";
+import { LANGUAGE_CHOICE_DESCRIPTION } from "./optionsHandler";
+
+/** Words the texts of the mocks are made of */
+const MOCK_WORDS = (
+  "lorem ipsum dolor sit amet consectetur adipiscing elit sed do eiusmod tempor incididunt ut labore et dolore " +
+  "magna aliqua enim minim veniam quis nostrud"
+).split(" ");
+
+/** Levels of nesting beyond the depth limit after which the required bloks of a component are deemed endless */
+const MAX_REQUIRED_NESTING = 10;
+
+/** Probability that an optional property is filled in, above the depth limit */
+const OPTIONAL_PROPERTY_CHANCE = 0.75;
+
+/** Earliest date of the mocked dates, in milliseconds */
+const MOCK_DATE_START = Date.UTC(2024, 0, 1);
+
+/** Codes of the mocked languages besides `default`, when no locales are configured */
+const MOCK_LANGUAGES = ["en", "de", "fr"];
+
+/**
+ * Values of strings, according to the name of their property
+ */
+const NAMED_STRING_MOCKS: Record<string, (random: Random) => string> = {
+  _uid: (random) => mockUuid(random),
+  uuid: (random) => mockUuid(random),
+  filename: (random) => `https://a.storyblok.com/f/${random.integer(100000, 999999)}/${mockSlug(random)}.jpg`,
+  url: (random) => `https://example.com/${mockSlug(random)}`,
+  cached_url: (random) => mockSlug(random),
+  slug: (random) => mockSlug(random),
+  full_slug: (random) => `${mockSlug(random)}/${mockSlug(random)}`,
+  email: (random) => `${random.pick(MOCK_WORDS)}@example.com`,
+};
+
+/**
+ * Generates a mock blok of each of the given components and writes them as JSON fixtures, e.g. `fixtures/hero.json`
+ *
+ * @throws {ValidationError} When a component was not converted or cannot be mocked
+ * @throws {FileOperationError} When a fixture cannot be written
+ */
+export async function writeMockFixtures(
+  componentNames: string[],
+  options: MockOptions,
+  context: GenerationContext
+): Promise<void> {
+  const declarations = new Map(generateSchemaDeclarations(context).map(({ name, schema }) => [name, schema]));
+
+  for (const componentName of componentNames) {
+    const mock = generateMock(componentName, declarations, options, context);
+    const fixturePath = path.join(options.fixturesDir, `${componentName}.json`);
+
+    await safeWriteFile(fixturePath, JSON.stringify(mock, null, 2) + "\n", context.tracer);
+    context.tracer.log(
+      LogLevel.INFO,
+      chalk.green(`Mock of component '${componentName}' written to `) + chalk.underline(path.resolve(fixturePath))
+    );
+  }
+}
+
+/**
+ * Generates a mock blok of a component, which is valid against the schema of the component
+ *
+ * @param declarations - The schemas the schema of the component may reference, by name
+ *
+ * @remarks
+ * The mock only depends on the seed and on the component, so regenerating it gives the same blok. It walks the schema
+ * of the component, picking the allowed choices, components and lengths at random and filling in optional properties
+ * most of the time. Beyond the depth limit of nested bloks, only the required properties and the minimum number of
+ * bloks are generated. Texts are not generated from the pattern of their field, so a text that does not match it
+ * fails the mock rather than making it invalid.
+ *
+ * @throws {ValidationError} When the component was not converted, its required bloks nest endlessly, or a mocked text
+ * does not match the pattern of its field
+ */
+export function generateMock(
+  componentName: string,
+  declarations: Map<string, SchemaNode>,
+  options: MockOptions,
+  context: GenerationContext
+): unknown {
+  if (!context.convertedComponents.has(componentName)) {
+    throw new ValidationError(`Component '${componentName}' was not converted and cannot be mocked`, {
+      componentName,
+    });
+  }
+
+  const state: MockState = {
+    componentName,
+    random: createRandom(`${options.seed}:${componentName}`),
+    declarations,
+    componentSchemaNames: new Set(
+      context.convertedComponents.getAll().map(([name]) => kebabToCamelCase(name) + "Schema")
+    ),
+    maxDepth: options.depth,
+    context,
+  };
+
+  context.tracer.log(LogLevel.DEBUG, `Mocking component '${componentName}' with seed '${options.seed}'`);
+
+  return mockNode({ kind: "ref", name: kebabToCamelCase(componentName) + "Schema" }, state, -1);
+}
+
+interface MockState {
+  /** Name of the mocked component */
+  componentName: string;
+  random: Random;
+  declarations: Map<string, SchemaNode>;
+  componentSchemaNames: Set<string>;
+  maxDepth: number;
+  context: GenerationContext;
+}
+
+/**
+ * Generates a value accepted by a schema
+ *
+ * @param depth - Nesting depth of the blok the value belongs to, the mocked component being at depth 0
+ * @param propertyName - Name of the property the value is assigned to, if any
+ * @returns The value, or `undefined` for a value to leave out
+ */
+function mockNode(node: SchemaNode, state: MockState, depth: number, propertyName?: string): unknown {
+  const { random } = state;
+  const isAtDepthLimit = depth >= state.maxDepth;
+
+  switch (node.kind) {
+    case "string":
+      return mockString(node, state, propertyName);
+
+    case "number":
+      return mockNumber(node, random);
+
+    case "boolean":
+      return random.chance(0.5);
+
+    case "null":
+    case "unknown":
+    case "any":
+      return null;
+
+    case "undefined":
+      return undefined;
+
+    case "literal":
+      return node.value;
+
+    case "enum":
+      return random.pick(node.values);
+
+    case "array": {
+      const choices = getChoices(node.items, state);
+      const minLength = node.minLength ?? 0;
+      const maxLength = Math.max(
+        minLength,
+        Math.min(node.maxLength ?? minLength + 3, minLength + 3, choices?.length ?? Infinity)
+      );
+      // Nothing can be mocked for items of any type, such as the bloks of fields allowing any component
+      const hasOpaqueItems = node.items.kind === "any" || node.items.kind === "unknown";
+      const length = isAtDepthLimit || hasOpaqueItems ? minLength : random.integer(minLength, maxLength);
+
+      if (choices) {
+        // Like in the editor, each choice is selected once, unless more choices than there are must be selected
+        const selected = random.pickDistinct(choices, length);
+        while (selected.length < length) {
+          selected.push(random.pick(choices));
+        }
+        return selected;
+      }
+
+      return Array.from({ length }, () => mockNode(node.items, state, depth));
+    }
+
+    case "object":
+      return mockProperties(node.properties, state, depth);
+
+    case "extend":
+      return { ...asObject(mockNode(node.base, state, depth)), ...mockProperties(node.properties, state, depth) };
+
+    case "record":
+      return {};
+
+    case "union":
+    case "discriminatedUnion": {
+      // Empty texts are accepted by non-required fields, but filled-in values make more realistic mocks
+      const filledOptions = node.options.filter((option) => !(option.kind === "literal" && option.value === ""));
+      const options = filledOptions.length > 0 ? filledOptions : node.options;
+      return mockNode(random.pick(options), state, depth, propertyName);
+    }
+
+    case "intersection":
+      return { ...asObject(mockNode(node.left, state, depth)), ...asObject(mockNode(node.right, state, depth)) };
+
+    case "optional":
+      return mockNode(node.inner, state, depth, propertyName);
+
+    case "nullable":
+      return random.chance(0.9) ? mockNode(node.inner, state, depth, propertyName) : null;
+
+    // Nested richtext nodes count as a level of nesting, whereas bloks are counted by their reference
+    case "lazy": {
+      const isRichtextNode = node.inner.kind === "ref" && !state.componentSchemaNames.has(node.inner.name);
+      return mockNode(node.inner, state, isRichtextNode ? depth + 1 : depth, propertyName);
+    }
+
+    case "ref": {
+      const schema = state.declarations.get(node.name);
+      if (!schema) {
+        state.context.tracer.log(LogLevel.WARN, `Unknown schema '${node.name}' mocked as null`);
+        return null;
+      }
+
+      const isBlok = state.componentSchemaNames.has(node.name);
+      if (isBlok && depth >= state.maxDepth + MAX_REQUIRED_NESTING) {
+        throw new ValidationError(
+          `Cannot mock component '${state.componentName}': its required bloks nest more than ` +
+            `${state.maxDepth + MAX_REQUIRED_NESTING} levels deep`,
+          { componentName: state.componentName }
+        );
+      }
+
+      return mockNode(schema, state, isBlok ? depth + 1 : depth, propertyName);
+    }
+
+    case "raw":
+      state.context.tracer.log(LogLevel.WARN, `Unsupported Zod expression mocked as null: ${node.expression}`);
+      return null;
+  }
+}
+
+/**
+ * Generates the properties of an object, leaving out some optional ones, and all of them beyond the depth limit
+ */
+function mockProperties(properties: SchemaProperty[], state: MockState, depth: number): Record<string, unknown> {
+  const mock: Record<string, unknown> = {};
+
+  for (const { name, schema } of properties) {
+    // Only set by the visual editor
+    if (name === "_editable") {
+      continue;
+    }
+
+    const isOptional = schema.kind === "optional";
+    if (isOptional && (depth >= state.maxDepth || !state.random.chance(OPTIONAL_PROPERTY_CHANCE))) {
+      continue;
+    }
+
+    const value = mockNode(schema, state, depth, name);
+    if (value !== undefined) {
+      mock[name] = value;
+    }
+  }
+
+  return mock;
+}
+
+function mockString(
+  node: Extract<SchemaNode, { kind: "string" }>,
+  state: MockState,
+  propertyName: string | undefined
+): string {
+  const { random } = state;
+
+  let text: string;
+  switch (node.format) {
+    case "datetime":
+      return new Date(MOCK_DATE_START + random.integer(0, 365 * 24 * 60) * 60_000).toISOString();
+    case "uuid":
+      return mockUuid(random);
+    case "url":
+      return `https://example.com/${mockSlug(random)}`;
+    case "email":
+      return `${random.pick(MOCK_WORDS)}@example.com`;
+    default: {
+      if (node.description === LANGUAGE_CHOICE_DESCRIPTION) {
+        return random.pick(getMockLanguages(state));
+      }
+
+      const mockNamedString = propertyName ? NAMED_STRING_MOCKS[propertyName] : undefined;
+      text = mockNamedString ? mockNamedString(random) : mockSentence(random);
+    }
+  }
+
+  if (node.minLength !== undefined) {
+    while (text.length < node.minLength) {
+      text += ` ${random.pick(MOCK_WORDS)}`;
+    }
+  }
+  if (node.maxLength !== undefined) {
+    text = text.slice(0, node.maxLength).trimEnd();
+  }
+
+  if (node.regex !== undefined && !new RegExp(node.regex).test(text)) {
+    throw new ValidationError(
+      `Cannot mock component '${state.componentName}': the mocked text of '${propertyName}' does not match ` +
+        `/${node.regex}/, since texts are not generated from patterns`,
+      { componentName: state.componentName, propertyName, regex: node.regex }
+    );
+  }
+
+  return text;
+}
+
+function mockNumber(node: Extract<SchemaNode, { kind: "number" }>, random: Random): number {
+  const min = node.min ?? (node.max !== undefined ? node.max - 100 : 0);
+  const max = node.max ?? min + 100;
+
+  if (node.multipleOf !== undefined) {
+    const step = node.multipleOf;
+    const multiple = random.integer(Math.ceil(min / step), Math.floor(max / step));
+    // Rounded to the decimals of the step, to avoid floating point artifacts
+    const decimals = (String(step).split(".")[1] ?? "").length;
+    return Number((multiple * step).toFixed(decimals));
+  }
+
+  // Integers are realistic for most number fields, unless the range has none
+  if (node.int || Math.ceil(min) <= Math.floor(max)) {
+    return random.integer(Math.ceil(min), Math.floor(max));
+  }
+
+  return Math.min(max, Math.max(min, Math.round((min + random.next() * (max - min)) * 100) / 100));
+}
+
+/**
+ * Returns the values accepted by the schema of a choice, such as an enum or a datasource, or `undefined` if it accepts
+ * other values
+ *
+ * @remarks
+ * Languages of the space are deemed to be the mocked ones.
+ */
+function getChoices(node: SchemaNode, state: MockState): unknown[] | undefined {
+  switch (node.kind) {
+    case "string":
+      return node.description === LANGUAGE_CHOICE_DESCRIPTION ? getMockLanguages(state) : undefined;
+
+    case "enum":
+      return node.values;
+
+    case "literal":
+      return [node.value];
+
+    case "union": {
+      const choices: unknown[] = [];
+      for (const option of node.options) {
+        const optionChoices = getChoices(option, state);
+        if (!optionChoices) {
+          return undefined;
+        }
+        choices.push(...optionChoices);
+      }
+      return choices;
+    }
+
+    case "ref": {
+      const schema = state.declarations.get(node.name);
+      return schema ? getChoices(schema, state) : undefined;
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Returns the codes of the mocked languages of the space: `default` and the configured locales
+ */
+function getMockLanguages(state: MockState): string[] {
+  const { locales } = state.context.options;
+  return ["default", ...(locales.length > 0 ? locales : MOCK_LANGUAGES)];
+}
+
+function mockSentence(random: Random): string {
+  const words = Array.from({ length: random.integer(2, 5) }, () => random.pick(MOCK_WORDS));
+  const sentence = words.join(" ");
+  return sentence.charAt(0).toUpperCase() + sentence.slice(1);
+}
+
+function mockSlug(random: Random): string {
+  return `${random.pick(MOCK_WORDS)}-${random.pick(MOCK_WORDS)}`;
+}
+
+function mockUuid(random: Random): string {
+  const hex = Array.from({ length: 32 }, () => random.integer(0, 15).toString(16));
+  // Version 4 and RFC 4122 variant
+  hex[12] = "4";
+  hex[16] = ((random.integer(0, 15) & 0x3) | 0x8).toString(16);
+  const text = hex.join("");
+  return `${text.slice(0, 8)}-${text.slice(8, 12)}-${text.slice(12, 16)}-${text.slice(16, 20)}-${text.slice(20)}`;
+}
+
+function asObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+/**
+ * A pseudo-random number generator, giving the same sequence for the same seed
+ */
+interface Random {
+  /** Returns a number between 0 (inclusive) and 1 (exclusive) */
+  next(): number;
+  /** Returns an integer between min and max, both inclusive */
+  integer(min: number, max: number): number;
+  pick<T>(items: T[]): T;
+  /** Returns `count` distinct items in a random order, or all of them if there are fewer */
+  pickDistinct<T>(items: T[], count: number): T[];
+  /** Returns `true` with the given probability */
+  chance(probability: number): boolean;
+}
+
+/**
+ * Creates a Mulberry32 generator seeded with the FNV-1a hash of the seed
+ */
+function createRandom(seed: string): Random {
+  let state = 0x811c9dc5;
+  for (let index = 0; index < seed.length; index++) {
+    state = Math.imul(state ^ seed.charCodeAt(index), 0x01000193);
+  }
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), state | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const integer = (min: number, max: number): number => min + Math.floor(next() * (max - min + 1));
+
+  return {
+    next,
+    integer,
+    pick: (items) => items[integer(0, items.length - 1)]!,
+    pickDistinct: (items, count) => {
+      const remaining = [...items];
+      return Array.from({ length: Math.min(count, items.length) }, () =>
+        remaining.splice(integer(0, remaining.length - 1), 1)[0]!
+      );
+    },
+    chance: (probability) => next() < probability,
+  };
+}
@@ -0,0 +1,109 @@
+import type { ComponentSchemaField, SchemaNode, SchemaProperty } from "../types";
+import { LogLevel } from "../context/Tracer";
+import type { GenerationContext } from "../context/GenerationContext";
+
+/** Interface of Storyblok's interface file describing a multilink */
+const MULTILINK_INTERFACE_NAME = "StoryblokMultilink";
+
+/**
+ * Handles the conversion of 'multilink' type fields
+ *
+ * @remarks
+ * The link is discriminated on its `linktype`, with only the link types the editor can pick:
+ * - `story` and `url` links are always allowed
+ * - `email` links if the field has `email_link_type`, and `asset` links if it has `asset_link_type`
+ *
+ * Story links have an `anchor` if the field has `show_anchor`, and every link has a `target` if the field has
+ * `allow_target_blank`. When the field restricts content types, the resolved story of a story link is restricted to
+ * them as well. An empty link is stored as a story link without any story. The TypeScript output uses the
+ * `StoryblokMultilink` interface instead, if the interface file has it.
+ */
+export function handleMultilinkType(
+  value: ComponentSchemaField,
+  parentComponentName: string,
+  context: GenerationContext
+): SchemaNode {
+  const commonProperties: SchemaProperty[] = [
+    { name: "fieldtype", schema: { kind: "literal", value: "multilink" } },
+    { name: "id", schema: { kind: "string" } },
+    { name: "url", schema: { kind: "string" } },
+    { name: "cached_url", schema: { kind: "string" } },
+    { name: "title", schema: optional({ kind: "string" }) },
+    { name: "rel", schema: optional({ kind: "string" }) },
+  ];
+  if (value.allow_target_blank) {
+    commonProperties.push({ name: "target", schema: optional({ kind: "enum", values: ["_blank", "_self"] }) });
+  }
+
+  const storyProperties: SchemaProperty[] = [
+    { name: "story", schema: optional(buildLinkedStorySchema(value, parentComponentName, context)) },
+  ];
+  if (value.show_anchor) {
+    storyProperties.push({ name: "anchor", schema: optional({ kind: "string" }) });
+  }
+
+  const options = [linkOf("story", commonProperties, storyProperties), linkOf("url", commonProperties)];
+  if (value.email_link_type) {
+    options.push(linkOf("email", commonProperties, [{ name: "email", schema: optional({ kind: "string" }) }]));
+  }
+  if (value.asset_link_type) {
+    options.push(linkOf("asset", commonProperties));
+  }
+
+  const schema: SchemaNode = { kind: "discriminatedUnion", discriminator: "linktype", options };
+  if (context.nativeSchemas.has(MULTILINK_INTERFACE_NAME)) {
+    schema.nativeType = MULTILINK_INTERFACE_NAME;
+  }
+
+  return schema;
+}
+
+/**
+ * Builds the schema of the story resolved in a story link, whose content is restricted to the allowed content types
+ */
+function buildLinkedStorySchema(
+  value: ComponentSchemaField,
+  parentComponentName: string,
+  context: GenerationContext
+): SchemaNode {
+  const properties: SchemaProperty[] = [
+    { name: "id", schema: { kind: "number" } },
+    { name: "uuid", schema: { kind: "string" } },
+    { name: "name", schema: { kind: "string" } },
+    { name: "slug", schema: { kind: "string" } },
+    { name: "full_slug", schema: { kind: "string" } },
+  ];
+
+  const contentTypes = value.restrict_content_types ? value.component_whitelist ?? [] : [];
+  if (value.restrict_content_types && contentTypes.length === 0) {
+    context.tracer.log(
+      LogLevel.WARN,
+      `Multilink field in component '${parentComponentName}' restricts content types without allowing any. ` +
+        "Allowing any content type."
+    );
+  }
+
+  if (contentTypes.length > 0) {
+    const component: SchemaNode =
+      contentTypes.length === 1
+        ? { kind: "literal", value: contentTypes[0]! }
+        : { kind: "enum", values: contentTypes };
+    const content: SchemaNode = { kind: "object", properties: [{ name: "component", schema: component }], loose: true };
+    properties.push({ name: "content", schema: optional(content) });
+  }
+
+  return { kind: "object", properties, loose: true };
+}
+
+function linkOf(
+  linktype: string,
+  commonProperties: SchemaProperty[],
+  properties: SchemaProperty[] = []
+): SchemaNode {
+  const linktypeProperty: SchemaProperty = { name: "linktype", schema: { kind: "literal", value: linktype } };
+  return { kind: "object", properties: [...commonProperties, linktypeProperty, ...properties], loose: true };
+}
+
+function optional(inner: SchemaNode): SchemaNode {
+  return { kind: "optional", inner };
+}
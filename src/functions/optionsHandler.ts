@@ -0,0 +1,217 @@
+import type { ComponentSchemaField, SchemaNode } from "../types";
+import { LogLevel } from "../context/Tracer";
+import type { GenerationContext } from "../context/GenerationContext";
+import { getDatasourceSchemaName } from "./datasourceProcessor";
+
+/** Schema used when the choices of an option field cannot be determined */
+const FALLBACK_OPTION_SCHEMA: SchemaNode = { kind: "union", options: [{ kind: "number" }, { kind: "string" }] };
+
+/** Schema used when the datasource of an option field has not been pulled */
+const FALLBACK_DATASOURCE_SCHEMA: SchemaNode = { kind: "string" };
+
+/** Sources for which the choices are stored on the field itself */
+const SELF_SOURCES = [undefined, "", "self"];
+
+/** Description of the schema of a language of the space, by which the mocks recognise it */
+export const LANGUAGE_CHOICE_DESCRIPTION = "Code of a language of the space, or 'default'";
+
+/**
+ * Handles the conversion of 'option' type fields (single choice)
+ *
+ * @remarks
+ * A non-required field also accepts an empty string, which is what Storyblok stores when no choice has been made,
+ * unless the field is configured with `exclude_empty_option`.
+ */
+export function handleOptionType(
+  value: ComponentSchemaField,
+  parentComponentName: string,
+  context: GenerationContext
+): SchemaNode {
+  const allowsEmptyOption = !value.required && !value.exclude_empty_option;
+
+  const spaceChoiceSchema = getSpaceChoiceSchema(value);
+  if (spaceChoiceSchema) {
+    return allowsEmptyOption && value.source === "internal_stories"
+      ? { kind: "union", options: [spaceChoiceSchema, { kind: "literal", value: "" }] }
+      : spaceChoiceSchema;
+  }
+
+  if (value.source === "internal") {
+    const datasourceSchema = getDatasourceSchema(value, parentComponentName, context);
+    return allowsEmptyOption && datasourceSchema !== FALLBACK_DATASOURCE_SCHEMA
+      ? { kind: "union", options: [datasourceSchema, { kind: "literal", value: "" }] }
+      : datasourceSchema;
+  }
+
+  const choices = getSelfSourcedChoices(value, parentComponentName, context);
+  if (!choices) {
+    return FALLBACK_OPTION_SCHEMA;
+  }
+
+  if (allowsEmptyOption && !choices.includes("")) {
+    choices.push("");
+  }
+
+  return buildChoicesSchema(choices);
+}
+
+/**
+ * Handles the conversion of 'options' type fields (multiple choices)
+ */
+export function handleOptionsType(
+  value: ComponentSchemaField,
+  parentComponentName: string,
+  context: GenerationContext
+): SchemaNode {
+  const spaceChoiceSchema = getSpaceChoiceSchema(value);
+  if (spaceChoiceSchema) {
+    return { kind: "array", items: spaceChoiceSchema };
+  }
+
+  if (value.source === "internal") {
+    return { kind: "array", items: getDatasourceSchema(value, parentComponentName, context) };
+  }
+
+  const choices = getSelfSourcedChoices(value, parentComponentName, context);
+  if (!choices) {
+    return { kind: "array", items: FALLBACK_OPTION_SCHEMA };
+  }
+
+  return { kind: "array", items: buildChoicesSchema(choices) };
+}
+
+/**
+ * Returns the schema of a choice among the stories or languages of the space, or `undefined` for other sources
+ *
+ * @remarks
+ * - `internal_stories`: the UUID of a story (or its ID for fields without `use_uuid`). The content types allowed by
+ *   `filter_content_type` cannot be checked on the UUID, so they are only described.
+ * - `internal_languages`: the code of a language of the space, e.g. `de`, or `default`
+ */
+function getSpaceChoiceSchema(value: ComponentSchemaField): SchemaNode | undefined {
+  if (value.source === "internal_languages") {
+    return { kind: "string", description: LANGUAGE_CHOICE_DESCRIPTION };
+  }
+
+  if (value.source !== "internal_stories") {
+    return undefined;
+  }
+
+  const schema: SchemaNode = value.use_uuid === false ? { kind: "string" } : { kind: "string", format: "uuid" };
+  const contentTypes = getFilteredContentTypes(value);
+  if (contentTypes.length > 0) {
+    schema.description = `Story of content type ${contentTypes.map((name) => `'${name}'`).join(", ")}`;
+  }
+
+  return schema;
+}
+
+/**
+ * Returns the content types of the stories that can be chosen in an option field sourced from stories
+ */
+export function getFilteredContentTypes(value: ComponentSchemaField): string[] {
+  const contentTypes = value.filter_content_type;
+  if (typeof contentTypes === "string") {
+    return contentTypes ? [contentTypes] : [];
+  }
+
+  return Array.isArray(contentTypes) ? contentTypes.filter((name) => typeof name === "string" && name) : [];
+}
+
+/**
+ * Returns the deduplicated values configured on a self-sourced option field, or `undefined` if there are none
+ */
+function getSelfSourcedChoices(
+  value: ComponentSchemaField,
+  parentComponentName: string,
+  context: GenerationContext
+): (string | number)[] | undefined {
+  if (!SELF_SOURCES.includes(value.source)) {
+    context.tracer.log(
+      LogLevel.DEBUG,
+      `Option field in component '${parentComponentName}' has source '${value.source}'. Using fallback.`,
+      "getSelfSourcedChoices"
+    );
+    return undefined;
+  }
+
+  if (!Array.isArray(value.options) || value.options.length === 0) {
+    context.tracer.log(
+      LogLevel.WARN,
+      `Option field in component '${parentComponentName}' has no configured options. Defaulting to 'z.union([z.number(), z.string()])'.`
+    );
+    return undefined;
+  }
+
+  const choices: (string | number)[] = [];
+
+  for (const option of value.options) {
+    const optionValue = option?.value;
+
+    if (typeof optionValue !== "string" && typeof optionValue !== "number") {
+      context.tracer.log(
+        LogLevel.WARN,
+        `Invalid option value in component '${parentComponentName}': ${JSON.stringify(option)}. Skipping.`
+      );
+      continue;
+    }
+
+    if (!choices.includes(optionValue)) {
+      choices.push(optionValue);
+    }
+  }
+
+  return choices.length > 0 ? choices : undefined;
+}
+
+/**
+ * Returns the name of the shared schema of the datasource used by an option field
+ *
+ * @remarks
+ * Falls back to `z.string()` with a warning when the datasource has not been pulled into the `.storyblok` folder.
+ */
+function getDatasourceSchema(
+  value: ComponentSchemaField,
+  parentComponentName: string,
+  context: GenerationContext
+): SchemaNode {
+  const slug = value.datasource_slug;
+
+  if (!slug) {
+    context.tracer.log(
+      LogLevel.WARN,
+      `Datasource option field in component '${parentComponentName}' has no datasource_slug. Defaulting to 'z.string()'.`
+    );
+    return FALLBACK_DATASOURCE_SCHEMA;
+  }
+
+  if (!context.datasources.has(slug)) {
+    if (context.datasources.markAsMissing(slug)) {
+      context.tracer.log(
+        LogLevel.WARN,
+        `Datasource '${slug}' used in component '${parentComponentName}' was not found. Pull it with Storyblok's CLI ` +
+          `\`datasources pull\` command to get typed values. Defaulting to 'z.string()'.`
+      );
+    }
+    return FALLBACK_DATASOURCE_SCHEMA;
+  }
+
+  context.datasources.markAsUsed(slug);
+  return { kind: "ref", name: getDatasourceSchemaName(slug) };
+}
+
+/**
+ * Builds a `z.enum()` when every choice is a string, or a union of literals otherwise
+ */
+export function buildChoicesSchema(choices: (string | number)[]): SchemaNode {
+  if (choices.every((choice) => typeof choice === "string")) {
+    return { kind: "enum", values: choices as string[] };
+  }
+
+  const literals: SchemaNode[] = choices.map((choice) => ({ kind: "literal", value: choice }));
+  if (literals.length === 1) {
+    return literals[0]!;
+  }
+
+  return { kind: "union", options: literals };
+}
@@ -0,0 +1,183 @@
+import path from "path";
+import chalk from "chalk";
+import { LogLevel } from "../context/Tracer";
+import type { GenerationContext } from "../context/GenerationContext";
+import * as CONSTANTS from "../constants";
+import { kebabToCamelCase, pascalToCamelCase, safeWriteFile } from "../utils";
+import type { SchemaNode } from "../types";
+import type { GeneratedSchemas } from "./outputGenerator";
+import { formatFinalOutput, getFileHeader } from "./outputFormatter";
+import { getDatasourceSchemaName } from "./datasourceProcessor";
+
+const NATIVES_MODULE = "natives";
+const DATASOURCES_MODULE = "datasources";
+const PLUGINS_MODULE = "plugins";
+const STORIES_MODULE = "stories";
+const COMPONENTS_FOLDER = "components";
+
+/**
+ * Writes the generated schemas to a directory, with one module per component and a barrel index.
+ *
+ * @remarks
+ * The directory is laid out as follows:
+ * - `natives.ts`: the used native schemas (Storyblok's asset, multilink, richtext...)
+ * - `datasources.ts`: the schemas of the used datasources
+ * - `plugins.ts`: the schemas of the used custom field type plugins
+ * - `components/<component-name>.ts`: the schema of each component, importing the schemas it references
+ * - `stories.ts`: the schemas of the content types, of the nestable bloks and of the stories
+ * - `index.ts`: re-exports all of the above
+ *
+ * Components referencing each other import each other's modules. This is safe because references within a cycle are
+ * always wrapped in `z.lazy()`, so they are only resolved once all modules are evaluated.
+ */
+export async function writeOutputDirectory(
+  outDir: string,
+  schemas: GeneratedSchemas,
+  context: GenerationContext
+): Promise<void> {
+  const fileHeader = getFileHeader(context.options.zodTarget);
+  const { tracer } = context;
+  const barrelExports: string[] = [];
+
+  if (schemas.nativeSchemas.length > 0) {
+    const content = formatFinalOutput(fileHeader, schemas.nativeSchemas.join("\n"), "", "", tracer);
+    await safeWriteFile(path.join(outDir, `${NATIVES_MODULE}.ts`), content, tracer);
+    barrelExports.push(`./${NATIVES_MODULE}`);
+  }
+
+  if (schemas.datasourceSchemas.length > 0) {
+    const content = formatFinalOutput(fileHeader, "", schemas.datasourceSchemas.join("\n"), "", tracer);
+    await safeWriteFile(path.join(outDir, `${DATASOURCES_MODULE}.ts`), content, tracer);
+    barrelExports.push(`./${DATASOURCES_MODULE}`);
+  }
+
+  if (schemas.pluginSchemas.length > 0) {
+    const content = formatFinalOutput(fileHeader, "", schemas.pluginSchemas.join("\n"), "", tracer);
+    await safeWriteFile(path.join(outDir, `${PLUGINS_MODULE}.ts`), content, tracer);
+    barrelExports.push(`./${PLUGINS_MODULE}`);
+  }
+
+  const nativeSchemaNames = new Set(
+    Array.from(context.nativeSchemas.getUsed().keys()).map((name) => pascalToCamelCase(name) + "Schema")
+  );
+  const datasourceSchemaNames = new Set(
+    Array.from(context.datasources.getUsed().keys()).map((slug) => getDatasourceSchemaName(slug))
+  );
+  const pluginSchemaNames = new Set(context.fieldPlugins.getUsed().map(({ name }) => name));
+
+  for (const [componentName, declaration] of context.convertedComponents.getAll()) {
+    const componentContent = schemas.componentSchemas.get(componentName);
+    if (componentContent === undefined) {
+      continue;
+    }
+
+    const references = new Set<string>();
+    for (const { schema } of [...context.convertedComponents.getHelpers(componentName), declaration]) {
+      collectReferences(schema, references);
+    }
+    const imports: string[] = [];
+
+    const nativeImports = Array.from(references).filter((name) => nativeSchemaNames.has(name));
+    if (nativeImports.length > 0) {
+      imports.push(`import { ${nativeImports.join(", ")} } from '../${NATIVES_MODULE}';`);
+    }
+
+    const datasourceImports = Array.from(references).filter((name) => datasourceSchemaNames.has(name));
+    if (datasourceImports.length > 0) {
+      imports.push(`import { ${datasourceImports.join(", ")} } from '../${DATASOURCES_MODULE}';`);
+    }
+
+    const pluginImports = Array.from(references).filter((name) => pluginSchemaNames.has(name));
+    if (pluginImports.length > 0) {
+      imports.push(`import { ${pluginImports.join(", ")} } from '../${PLUGINS_MODULE}';`);
+    }
+
+    for (const dependency of new Set(context.dependencyGraph.getDependencies(componentName))) {
+      if (dependency === componentName || !context.convertedComponents.has(dependency)) {
+        continue;
+      }
+
+      const dependencySchemaName = kebabToCamelCase(dependency) + "Schema";
+      if (references.has(dependencySchemaName)) {
+        imports.push(`import { ${dependencySchemaName} } from './${dependency}';`);
+      }
+    }
+
+    const content = formatFinalOutput(`${fileHeader}\n${imports.join("\n")}`, "", "", componentContent, tracer);
+    await safeWriteFile(path.join(outDir, COMPONENTS_FOLDER, `${componentName}.ts`), content, tracer);
+    barrelExports.push(`./${COMPONENTS_FOLDER}/${componentName}`);
+  }
+
+  if (schemas.storySchemas.length > 0) {
+    const storyContent = schemas.storySchemas.join("\n");
+    const isReferenced = (schemaName: string): boolean => new RegExp(`\\b${schemaName}\\b`).test(storyContent);
+    const imports: string[] = [];
+
+    const nativeImports = Array.from(nativeSchemaNames).filter(isReferenced);
+    if (nativeImports.length > 0) {
+      imports.push(`import { ${nativeImports.join(", ")} } from './${NATIVES_MODULE}';`);
+    }
+
+    for (const [componentName] of context.convertedComponents.getAll()) {
+      const componentSchemaName = kebabToCamelCase(componentName) + "Schema";
+      if (isReferenced(componentSchemaName)) {
+        imports.push(`import { ${componentSchemaName} } from './${COMPONENTS_FOLDER}/${componentName}';`);
+      }
+    }
+
+    const content = formatFinalOutput(`${fileHeader}\n${imports.join("\n")}`, "", "", storyContent, tracer);
+    await safeWriteFile(path.join(outDir, `${STORIES_MODULE}.ts`), content, tracer);
+    barrelExports.push(`./${STORIES_MODULE}`);
+  }
+
+  const barrel = barrelExports.map((modulePath) => `export * from '${modulePath}';`);
+  const barrelContent = [CONSTANTS.FILE_HEADER_COMMENT, ...barrel].join("\n") + "\n";
+  await safeWriteFile(path.join(outDir, "index.ts"), barrelContent, tracer);
+
+  tracer.log(
+    LogLevel.INFO,
+    chalk.green(`Zod definitions generated successfully in ${barrelExports.length} modules at `) +
+      chalk.underline(path.resolve(outDir))
+  );
+}
+
+/**
+ * Collects the names of the schemas referenced by a schema node
+ */
+function collectReferences(node: SchemaNode, references: Set<string> = new Set()): Set<string> {
+  switch (node.kind) {
+    case "ref":
+      references.add(node.name);
+      break;
+    case "array":
+      collectReferences(node.items, references);
+      break;
+    case "object":
+      node.properties.forEach(({ schema }) => collectReferences(schema, references));
+      break;
+    case "extend":
+      collectReferences(node.base, references);
+      node.properties.forEach(({ schema }) => collectReferences(schema, references));
+      break;
+    case "record":
+      collectReferences(node.values, references);
+      break;
+    case "union":
+    case "discriminatedUnion":
+      node.options.forEach((option) => collectReferences(option, references));
+      break;
+    case "intersection":
+      collectReferences(node.left, references);
+      collectReferences(node.right, references);
+      break;
+    case "optional":
+    case "nullable":
+    case "lazy":
+      collectReferences(node.inner, references);
+      break;
+    default:
+      break;
+  }
+
+  return references;
+}
@@ -1,64 +1,42 @@
-import { Project } from "ts-morph";
-import { LogLevel, Tracer } from "../statics/Tracer";
+import { Node, Project } from "ts-morph";
+import { LogLevel, Tracer } from "../context/Tracer";
+import * as CONSTANTS from "../constants";
+import type { ZodTarget } from "../types";
 
 /**
  * Analyzes the generated code content to extract imports and schemas
+ *
+ * @remarks
+ * Each top-level statement other than an import is returned as a schema. Type aliases are kept together with the
+ * statement preceding them, so that inferred types stay next to the schema they are inferred from.
  */
 function analyzeGeneratedContent(content: string): { imports: Set<string>; schemas: string[] } {
-  const lines = content.split("\n");
   const imports = new Set<string>();
   const schemas: string[] = [];
-  let currentSchema = "";
-  let inSchema = false;
-  let braceCount = 0;
 
-  for (const line of lines) {
-    const trimmedLine = line.trim();
+  const project = new Project({
+    useInMemoryFileSystem: true,
+    compilerOptions: {
+      target: 99, // Latest
+    },
+  });
 
-    // Skip empty lines and comments when not in a schema
-    if (!inSchema && (!trimmedLine || trimmedLine.startsWith("//"))) {
-      continue;
-    }
+  const sourceFile = project.createSourceFile("analyzed.ts", content);
 
-    // Detect import statements
-    if (trimmedLine.startsWith("import ") && trimmedLine.includes("from")) {
-      imports.add(line);
+  for (const statement of sourceFile.getStatements()) {
+    if (Node.isImportDeclaration(statement)) {
+      imports.add(statement.getText());
       continue;
     }
 
-    // Detect schema start - any const/export const that uses Zod
-    if ((trimmedLine.startsWith("export const ") || trimmedLine.startsWith("const ")) && 
-        (trimmedLine.includes(" = z.") || trimmedLine.includes("= z."))) {
-      inSchema = true;
-      currentSchema = line;
-      braceCount = (line.match(/\{/g) || []).length - (line.match(/\}/g) || []).length;
-
-      // If it's a single-line schema
-      if (braceCount === 0 && trimmedLine.endsWith(";")) {
-        schemas.push(currentSchema);
-        currentSchema = "";
-        inSchema = false;
-      }
-      continue;
-    }
+    const statementText = statement.getText();
 
-    // Continue building current schema
-    if (inSchema) {
-      currentSchema += "\n" + line;
-      braceCount += (line.match(/\{/g) || []).length - (line.match(/\}/g) || []).length;
-
-      // Schema is complete when braces are balanced and line ends with semicolon
-      if (braceCount === 0 && trimmedLine.endsWith(";")) {
-        schemas.push(currentSchema);
-        currentSchema = "";
-        inSchema = false;
-      }
+    if (Node.isTypeAliasDeclaration(statement) && schemas.length > 0) {
+      schemas[schemas.length - 1] += "\n" + statementText;
+      continue;
     }
-  }
 
-  // Handle any remaining unclosed schema
-  if (inSchema && currentSchema) {
-    schemas.push(currentSchema);
+    schemas.push(statementText);
   }
 
   return { imports, schemas };
@@ -67,8 +45,8 @@ function analyzeGeneratedContent(content: string): { imports: Set<string>; schem
 /**
  * Deduplicates imports by combining them intelligently
  */
-function deduplicateImports(imports: Set<string>): string[] {
-  const importMap = new Map<string, { items: Set<string>; isType: boolean }>();
+function deduplicateImports(imports: Set<string>, tracer: Tracer): string[] {
+  const importMap = new Map<string, { items: Set<string>; defaultImport?: string; isType: boolean }>();
 
   for (const importStatement of imports) {
     try {
@@ -101,25 +79,20 @@ function deduplicateImports(imports: Set<string>): string[] {
             // Handle namespace imports like * as z
             moduleData.items.add(`* as ${namespaceImport}`);
           } else if (defaultImport) {
-            // Handle default imports - but these are usually not type imports
-            // If it's a type import of a single identifier, treat it as named import
-            if (isType) {
-              moduleData.items.add(defaultImport);
-            } else {
-              moduleData.items.add(defaultImport);
-            }
+            // Handle default imports, which must not be merged with named imports like { z }
+            moduleData.defaultImport = defaultImport;
           }
         }
       }
     } catch (error) {
-      Tracer.log(LogLevel.WARN, `Failed to parse import: ${importStatement}`, "deduplicateImports");
+      tracer.log(LogLevel.WARN, `Failed to parse import: ${importStatement}`, "deduplicateImports");
     }
   }
 
   // Reconstruct deduplicated import statements
   const deduplicatedImports: string[] = [];
 
-  for (const [modulePath, { items, isType }] of importMap) {
+  for (const [modulePath, { items, defaultImport, isType }] of importMap) {
     const importArray = Array.from(items).sort();
     const hasNamespace = importArray.some((imp) => imp.startsWith("* as "));
 
@@ -131,21 +104,14 @@ function deduplicateImports(imports: Set<string>): string[] {
         deduplicatedImports.push(`import ${typePrefix}${namespaceImport} from '${modulePath}';`);
       }
     } else {
-      // For type imports or multiple imports, always use curly braces
-      // For single non-type imports that don't look like named imports, use default import syntax
-      const shouldUseDefaultSyntax =
-        !isType &&
-        importArray.length === 1 &&
-        importArray[0] &&
-        !importArray[0].includes("{") &&
-        /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(importArray[0]); // Valid identifier
-
-      if (shouldUseDefaultSyntax) {
-        // Single default import
-        deduplicatedImports.push(`import ${importArray[0]} from '${modulePath}';`);
-      } else {
-        // Named imports (including type imports)
-        const typePrefix = isType ? "type " : "";
+      const typePrefix = isType ? "type " : "";
+
+      if (defaultImport) {
+        deduplicatedImports.push(`import ${typePrefix}${defaultImport} from '${modulePath}';`);
+      }
+
+      if (importArray.length > 0) {
+        // Named imports (including type imports) always use curly braces
         deduplicatedImports.push(`import ${typePrefix}{ ${importArray.join(", ")} } from '${modulePath}';`);
       }
     }
@@ -157,7 +123,7 @@ function deduplicateImports(imports: Set<string>): string[] {
 /**
  * Formats TypeScript code using ts-morph for proper indentation and spacing
  */
-function formatWithTsMorph(content: string): string {
+function formatWithTsMorph(content: string, tracer: Tracer): string {
   try {
     const project = new Project({
       useInMemoryFileSystem: true,
@@ -184,7 +150,7 @@ function formatWithTsMorph(content: string): string {
 
     return sourceFile.getFullText();
   } catch (error) {
-    Tracer.log(
+    tracer.log(
       LogLevel.WARN,
       `Failed to format with ts-morph: ${error instanceof Error ? error.message : "Unknown error"}`,
       "formatWithTsMorph"
@@ -193,41 +159,50 @@ function formatWithTsMorph(content: string): string {
   }
 }
 
+/**
+ * Returns the header of generated files, importing Zod from the targeted module
+ */
+export function getFileHeader(target: ZodTarget): string {
+  return `${CONSTANTS.FILE_HEADER_COMMENT}\nimport { z } from '${target.importSource}';`;
+}
+
 /**
  * Formats the final output with proper organization and spacing
+ *
+ * @param sharedSchemas - Schemas referenced by components, such as the ones of datasources and plugins
  */
 export function formatFinalOutput(
   fileHeader: string,
   nativeSchemas: string,
-  componentSchemas: string
+  sharedSchemas: string,
+  componentSchemas: string,
+  tracer: Tracer
 ): string {
-  Tracer.log(LogLevel.DEBUG, "Starting output formatting", "formatFinalOutput");
+  tracer.log(LogLevel.DEBUG, "Starting output formatting", "formatFinalOutput");
 
   try {
     // Combine all content for analysis
-    const allContent = `${fileHeader}\n${nativeSchemas}\n${componentSchemas}`;
+    const allContent = `${fileHeader}\n${nativeSchemas}\n${sharedSchemas}\n${componentSchemas}`;
 
     // Analyze the content
     const { imports: extractedImports, schemas } = analyzeGeneratedContent(allContent);
 
-    // Add the header import if not already present
-    extractedImports.add("import { z } from 'astro/zod';");
-
     // Deduplicate and sort imports
-    const finalImports = deduplicateImports(extractedImports);
+    const finalImports = deduplicateImports(extractedImports, tracer);
 
     // Organize schemas with proper spacing
     const organizedSchemas = schemas.map((schema) => schema.trim()).filter(Boolean);
 
-    // Build final content
-    const contentParts = ["// Generated by storyblok-to-zod", ...finalImports, ...organizedSchemas];
+    // Build final content, with the imports grouped together and the other sections separated by a blank line
+    const importBlock = finalImports.join("\n");
+    const contentParts = [CONSTANTS.FILE_HEADER_COMMENT, ...(importBlock ? [importBlock] : []), ...organizedSchemas];
 
     const rawContent = contentParts.join("\n\n");
 
     // Format with ts-morph for consistent style
-    const formattedContent = formatWithTsMorph(rawContent);
+    const formattedContent = formatWithTsMorph(rawContent, tracer);
 
-    Tracer.log(
+    tracer.log(
       LogLevel.DEBUG,
       `Formatted output with ${finalImports.length} imports and ${organizedSchemas.length} schemas`,
       "formatFinalOutput"
@@ -236,9 +211,9 @@ export function formatFinalOutput(
     return formattedContent;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    Tracer.log(LogLevel.ERROR, `Error formatting output: ${errorMessage}`, "formatFinalOutput");
+    tracer.log(LogLevel.ERROR, `Error formatting output: ${errorMessage}`, "formatFinalOutput");
 
     // Fallback to basic concatenation
-    return `${fileHeader}\n${nativeSchemas}\n${componentSchemas}`;
+    return `${fileHeader}\n${nativeSchemas}\n${sharedSchemas}\n${componentSchemas}`;
   }
 }
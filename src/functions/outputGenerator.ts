@@ -1,43 +1,69 @@
+import fs from "fs/promises";
 import path from "path";
-import { LogLevel, Tracer } from "../statics/Tracer";
-import { ConvertedComponents } from "../statics/ConvertedComponents";
-import { NativeSchemaRegistry } from "../statics/NativeSchemaRegistry";
-import { safeWriteFile } from "../utils";
-import * as CONSTANTS from "../constants";
+import { LogLevel } from "../context/Tracer";
+import type { GenerationContext } from "../context/GenerationContext";
+import { kebabToCamelCase, kebabToPascalCase, pascalToCamelCase, safeWriteFile } from "../utils";
+import { FileOperationError } from "../validation";
 import chalk from "chalk";
-import { formatFinalOutput } from "./outputFormatter";
+import { formatFinalOutput, getFileHeader } from "./outputFormatter";
 import { analyzeNativeSchemaDependencies } from "./dependencyAnalyzer";
+import { generateDatasourceSchemas } from "./datasourceProcessor";
+import { generateStorySchemas } from "./storySchemaGenerator";
+import { appendTypeExports, getImportedIdentifiers, TypedSchema } from "./typeExporter";
+import { renderSchemaDeclaration } from "./zodRenderer";
+import { writeOutputDirectory } from "./outputDirectoryWriter";
+import { parseZodModule } from "./zodExpressionParser";
+import { createUnifiedDiff } from "./unifiedDiff";
+import { JSON_SCHEMA_DIALECT, JsonSchema, renderJsonSchemaNode } from "./jsonSchemaRenderer";
+import { getDefaultTypeName, renderTypeDeclaration, TypeNameResolver } from "./typeScriptRenderer";
+import type { OutputFormat, SchemaDeclaration } from "../types";
+import * as CONSTANTS from "../constants";
 
 /**
- * Generate the final output file
+ * The rendered code of the generated schemas, grouped by kind
  */
-export async function generateFinalOutput(outputPath?: string): Promise<void> {
-  try {
-    // Analyze which native schemas are actually used by components
-    analyzeNativeSchemaDependencies();
+export interface GeneratedSchemas {
+  /** Used native schemas, including the imports they need and their inferred types */
+  nativeSchemas: string[];
+  datasourceSchemas: string[];
+  /** Schemas of the used custom field type plugins */
+  pluginSchemas: string[];
+  /** Schema of each component, followed by its inferred types */
+  componentSchemas: Map<string, string>;
+  /** Schemas of the content types, of the nestable bloks and of the stories, followed by their inferred types */
+  storySchemas: string[];
+}
 
-    const stats = NativeSchemaRegistry.getUsageStats();
-    Tracer.log(
-      LogLevel.INFO,
-      `Using ${stats.used}/${stats.total} native schemas (${stats.unused} unused schemas excluded)`
-    );
+/** Description of the generated output in messages, by format */
+const OUTPUT_DESCRIPTIONS: Record<OutputFormat, string> = {
+  zod: "Zod definitions",
+  "json-schema": "JSON Schema definitions",
+  typescript: "TypeScript declarations",
+};
 
-    // Use only the used native schemas
-    const usedNativeSchemas = NativeSchemaRegistry.getUsed();
-    const allNativeSchemas = Array.from(usedNativeSchemas.values()).join("\n");
+/**
+ * Generate the final output file
+ */
+export async function generateFinalOutput(context: GenerationContext): Promise<void> {
+  const { options } = context;
+  const outputPath = options.output;
 
-    const allComponentSchemas = ConvertedComponents.getAllValues().join("\n");
+  try {
+    if (options.outDir) {
+      await writeOutputDirectory(options.outDir, generateSchemas(context), context);
+      return;
+    }
 
-    // Use the new formatter for better organization and formatting
-    const formattedContent = formatFinalOutput(CONSTANTS.FILE_HEADER, allNativeSchemas, allComponentSchemas);
+    const formattedContent = formatOutput(context);
 
     if (outputPath) {
-      await safeWriteFile(outputPath, formattedContent);
-      Tracer.log(LogLevel.DEBUG, `Final output written to: ${path.resolve(outputPath)}`);
+      await safeWriteFile(outputPath, formattedContent, context.tracer);
+      context.tracer.log(LogLevel.DEBUG, `Final output written to: ${path.resolve(outputPath)}`);
 
-      Tracer.log(
+      context.tracer.log(
         LogLevel.INFO,
-        chalk.green("Zod definitions generated successfully at ") + chalk.underline(path.resolve(outputPath))
+        chalk.green(`${OUTPUT_DESCRIPTIONS[options.format]} generated successfully at `) +
+          chalk.underline(path.resolve(outputPath))
       );
     } else {
       // Remove final newline so it doesn't spoil the output when piping
@@ -49,3 +75,334 @@ export async function generateFinalOutput(outputPath?: string): Promise<void> {
     throw new Error(`Failed to generate final output: ${error instanceof Error ? error.message : "Unknown error"}`);
   }
 }
+
+/**
+ * Compares the generated schemas with the existing output file, without writing anything
+ *
+ * @remarks
+ * Prints a unified diff from the existing file to the generated output when they differ. A missing file is compared
+ * as an empty one.
+ *
+ * @returns `true` if the output file is up to date
+ */
+export async function checkFinalOutput(context: GenerationContext): Promise<boolean> {
+  const outputPath = path.resolve(context.options.output!);
+  const formattedContent = formatOutput(context);
+  const outputDescription = OUTPUT_DESCRIPTIONS[context.options.format];
+
+  let existingContent = "";
+  try {
+    existingContent = await fs.readFile(outputPath, "utf-8");
+  } catch (error) {
+    if (!(error instanceof Error && "code" in error && error.code === "ENOENT")) {
+      throw new FileOperationError(
+        `Failed to read file: ${error instanceof Error ? error.message : "Unknown error"}`,
+        outputPath,
+        "read"
+      );
+    }
+    context.tracer.log(LogLevel.DEBUG, `Output file does not exist yet: ${outputPath}`);
+  }
+
+  const diff = createUnifiedDiff(
+    existingContent,
+    formattedContent,
+    `a/${context.options.output}`,
+    `b/${context.options.output}`
+  );
+  if (!diff) {
+    context.tracer.log(
+      LogLevel.INFO,
+      chalk.green(`${outputDescription} are up to date at `) + chalk.underline(outputPath)
+    );
+    return true;
+  }
+
+  context.tracer.log(LogLevel.INFO, diff.trimEnd().split("\n").map(colorDiffLine).join("\n"));
+  context.tracer.log(
+    LogLevel.ERROR,
+    `${outputDescription} at ${outputPath} are out of date. Run the command without --check to regenerate them.`
+  );
+  return false;
+}
+
+function colorDiffLine(line: string): string {
+  if (line.startsWith("+++") || line.startsWith("---")) {
+    return chalk.bold(line);
+  }
+  if (line.startsWith("@@")) {
+    return chalk.cyan(line);
+  }
+  if (line.startsWith("+")) {
+    return chalk.green(line);
+  }
+  if (line.startsWith("-")) {
+    return chalk.red(line);
+  }
+  return line;
+}
+
+/**
+ * Formats the generated schemas as a single file: a module of Zod schemas, a JSON Schema document or TypeScript
+ * declarations
+ */
+export function formatOutput(context: GenerationContext): string {
+  if (context.options.format === "json-schema") {
+    return JSON.stringify(generateJsonSchemaDocument(context), null, 2) + "\n";
+  }
+
+  if (context.options.format === "typescript") {
+    return generateTypeDeclarations(context);
+  }
+
+  return formatSingleModule(generateSchemas(context), context);
+}
+
+/**
+ * Formats the generated schemas as a single module
+ */
+export function formatSingleModule(schemas: GeneratedSchemas, context: GenerationContext): string {
+  // Use the new formatter for better organization and formatting
+  return formatFinalOutput(
+    getFileHeader(context.options.zodTarget),
+    schemas.nativeSchemas.join("\n"),
+    [...schemas.datasourceSchemas, ...schemas.pluginSchemas].join("\n"),
+    [...schemas.componentSchemas.values(), ...schemas.storySchemas].join("\n"),
+    context.tracer
+  );
+}
+
+/**
+ * Renders the used native schemas, the used datasources and plugins, the converted components and the story schemas
+ * with the targeted Zod API
+ */
+export function generateSchemas(context: GenerationContext): GeneratedSchemas {
+  const { options } = context;
+  const target = options.zodTarget;
+
+  // Generated first, since the story schema may use a native schema
+  const storyDeclarations = generateStorySchemas(context);
+
+  // Analyze which native schemas are actually used by components
+  analyzeNativeSchemaDependencies(context);
+
+  const stats = context.nativeSchemas.getUsageStats();
+  context.tracer.log(
+    LogLevel.INFO,
+    `Using ${stats.used}/${stats.total} native schemas (${stats.unused} unused schemas excluded)`
+  );
+
+  // Use only the used native schemas
+  const usedNativeSchemas: TypedSchema[] = Array.from(context.nativeSchemas.getUsed()).map(
+    ([interfaceName, content]) => ({
+      schemaName: pascalToCamelCase(interfaceName) + "Schema",
+      typeName: interfaceName,
+      content: renderNativeSchema(content, context),
+    })
+  );
+
+  const convertedComponents = context.convertedComponents.getAll();
+  const componentSchemas: TypedSchema[] = convertedComponents.map(([componentName, declaration]) => ({
+    schemaName: kebabToCamelCase(componentName) + "Schema",
+    typeName: kebabToPascalCase(componentName) + "Blok",
+    content: [...context.convertedComponents.getHelpers(componentName), declaration]
+      .map((schemaDeclaration) => renderSchemaDeclaration(schemaDeclaration, target))
+      .join("\n"),
+  }));
+
+  const storySchemas: TypedSchema[] = storyDeclarations.map((declaration) => ({
+    schemaName: declaration.name,
+    typeName: declaration.typeName,
+    content: renderSchemaDeclaration(declaration, target),
+  }));
+
+  let nativeContents = usedNativeSchemas.map(({ content }) => content);
+  let componentContents = componentSchemas.map(({ content }) => content);
+  let storyContents = storySchemas.map(({ content }) => content);
+
+  if (options.types) {
+    const typedSchemas = [...usedNativeSchemas, ...componentSchemas, ...storySchemas];
+    // Recursive schemas already declare their type
+    const reservedNames = new Set([
+      ...getImportedIdentifiers(nativeContents.join("\n")),
+      ...convertedComponents.flatMap(([, declaration]) => declaration.recursiveType ?? []),
+    ]);
+    const contentsWithTypes = appendTypeExports(typedSchemas, context.tracer, reservedNames);
+
+    nativeContents = contentsWithTypes.slice(0, usedNativeSchemas.length);
+    componentContents = contentsWithTypes.slice(
+      usedNativeSchemas.length,
+      usedNativeSchemas.length + componentSchemas.length
+    );
+    storyContents = contentsWithTypes.slice(usedNativeSchemas.length + componentSchemas.length);
+  }
+
+  const datasourceContents = generateDatasourceSchemas(context).map((declaration) =>
+    renderSchemaDeclaration(declaration, target)
+  );
+
+  const pluginContents = context.fieldPlugins
+    .getUsed()
+    .map((declaration) => renderSchemaDeclaration(declaration, target));
+
+  return {
+    nativeSchemas: nativeContents,
+    datasourceSchemas: datasourceContents,
+    pluginSchemas: pluginContents,
+    componentSchemas: new Map(
+      convertedComponents.map(([componentName], index) => [componentName, componentContents[index]!])
+    ),
+    storySchemas: storyContents,
+  };
+}
+
+/**
+ * Renders a native schema generated by ts-to-zod with the targeted Zod API
+ */
+function renderNativeSchema(content: string, context: GenerationContext): string {
+  const { imports, declarations } = parseZodModule(content, context.tracer);
+  const renderedDeclarations = declarations.map((declaration) =>
+    renderSchemaDeclaration(declaration, context.options.zodTarget)
+  );
+
+  return [...imports, ...renderedDeclarations].join("\n");
+}
+
+/**
+ * Generates a JSON Schema document of the used native schemas, the used datasources and plugins, the converted
+ * components and the story schemas
+ *
+ * @remarks
+ * The schemas are rendered from the same intermediate representation as the Zod schemas. Each of them is declared in
+ * `$defs` under the name of its Zod schema (e.g. `heroSchema`), and references the schemas it uses with `$ref`.
+ */
+export function generateJsonSchemaDocument(context: GenerationContext): JsonSchema {
+  const declarations = generateSchemaDeclarations(context);
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: `Storyblok space ${context.options.space}`,
+    $defs: Object.fromEntries(declarations.map(({ name, schema }) => [name, renderJsonSchemaNode(schema)])),
+  };
+}
+
+/**
+ * Returns the declarations of the used native schemas, the used datasources and plugins, the converted components
+ * (preceded by their helpers) and the story schemas, before they are rendered
+ */
+export function generateSchemaDeclarations(context: GenerationContext): SchemaDeclaration[] {
+  // Generated first, since the story schema may use a native schema
+  const storyDeclarations = generateStorySchemas(context);
+
+  analyzeNativeSchemaDependencies(context);
+
+  const nativeDeclarations = Array.from(context.nativeSchemas.getUsed().values()).flatMap(
+    (content) => parseZodModule(content, context.tracer).declarations
+  );
+
+  return [
+    ...nativeDeclarations,
+    ...generateDatasourceSchemas(context),
+    ...context.fieldPlugins.getUsed(),
+    ...context.convertedComponents.getAllValues(),
+    ...storyDeclarations,
+  ];
+}
+
+/**
+ * Generates the TypeScript declarations of the used datasources and plugins, the converted components and the story
+ * schemas, which need no Zod runtime
+ *
+ * @remarks
+ * The types are rendered from the same intermediate representation as the Zod schemas, and named like the types
+ * inferred from them (e.g. `HeroBlok`). Native schemas are not regenerated: the interfaces of Storyblok's interface
+ * file are imported instead, including for multilink and richtext fields.
+ */
+export function generateTypeDeclarations(context: GenerationContext): string {
+  const storyDeclarations = generateStorySchemas(context);
+  const convertedComponents = context.convertedComponents.getAll();
+
+  const typeNames = new Map<string, string>();
+  for (const interfaceName of context.nativeSchemas.getAll().keys()) {
+    typeNames.set(pascalToCamelCase(interfaceName) + "Schema", interfaceName);
+  }
+  for (const [componentName] of convertedComponents) {
+    typeNames.set(kebabToCamelCase(componentName) + "Schema", kebabToPascalCase(componentName) + "Blok");
+  }
+  for (const { name, typeName } of storyDeclarations) {
+    typeNames.set(name, typeName);
+  }
+  const resolveTypeName: TypeNameResolver = (schemaName) => typeNames.get(schemaName) ?? getDefaultTypeName(schemaName);
+
+  const sharedContents = [...generateDatasourceSchemas(context), ...context.fieldPlugins.getUsed()].map((declaration) =>
+    renderTypeDeclaration(declaration, resolveTypeName)
+  );
+
+  const componentContents = convertedComponents.map(([componentName, declaration]) => {
+    const content = renderTypeDeclaration(declaration, resolveTypeName);
+    const helpers = context.convertedComponents.getHelpers(componentName);
+    return [...renderReferencedHelpers(helpers, content, resolveTypeName), content].join("\n");
+  });
+
+  const storyContents = storyDeclarations.map((declaration) => renderTypeDeclaration(declaration, resolveTypeName));
+
+  const declarationsContent = [...sharedContents, ...componentContents, ...storyContents].join("\n");
+  const usedInterfaceNames = Array.from(context.nativeSchemas.getAll().keys()).filter((interfaceName) =>
+    new RegExp(`\\b${interfaceName}\\b`).test(declarationsContent)
+  );
+
+  const imports =
+    usedInterfaceNames.length > 0
+      ? [`import type { ${usedInterfaceNames.join(", ")} } from '${getInterfacesImportPath(context)}';`]
+      : [];
+
+  // Declarations are rendered formatted, and their types are not inferred from schemas, unlike in Zod modules
+  const contents = [...sharedContents, ...componentContents, ...storyContents].map((content) => content.trim());
+
+  return [CONSTANTS.FILE_HEADER_COMMENT, ...imports, ...contents].join("\n\n") + "\n";
+}
+
+/**
+ * Renders the helper declarations of a component that its type references, directly or through other helpers
+ *
+ * @remarks
+ * Helpers standing for a native interface, such as the schemas of richtext documents, are not referenced anymore.
+ */
+function renderReferencedHelpers(
+  helpers: SchemaDeclaration[],
+  componentContent: string,
+  resolveTypeName: TypeNameResolver
+): string[] {
+  const referencedHelpers = new Map<string, string>();
+  let referencingContent = componentContent;
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const helper of helpers) {
+      const typeName = resolveTypeName(helper.name);
+      if (!referencedHelpers.has(helper.name) && new RegExp(`\\b${typeName}\\b`).test(referencingContent)) {
+        const content = renderTypeDeclaration(helper, resolveTypeName);
+        referencedHelpers.set(helper.name, content);
+        referencingContent += content;
+        changed = true;
+      }
+    }
+  }
+
+  // Keep the order of the helpers
+  return helpers.flatMap(({ name }) => referencedHelpers.get(name) ?? []);
+}
+
+/**
+ * Returns the path of Storyblok's interface file relative to the output file (or to the working directory when
+ * printing the output), e.g. `../.storyblok/types/storyblok`
+ */
+function getInterfacesImportPath(context: GenerationContext): string {
+  const { options } = context;
+  const interfacesPath = path.resolve(options.folder, "types", CONSTANTS.SB_INTERFACES_FILE.replace(/\.d\.ts$/, ""));
+  const outputDirectory = options.output ? path.dirname(path.resolve(options.output)) : process.cwd();
+  const relativePath = path.relative(outputDirectory, interfacesPath).split(path.sep).join("/");
+
+  return relativePath.startsWith("../") ? relativePath : `./${relativePath}`;
+}
@@ -0,0 +1,73 @@
+import type { ComponentSchemaField, SchemaNode } from "../types";
+import { LogLevel } from "../context/Tracer";
+import type { GenerationContext } from "../context/GenerationContext";
+import { buildComponentsSchema } from "./bloksHandler";
+import { getFilteredContentTypes } from "./optionsHandler";
+
+/**
+ * Checks whether a field holds relations to other stories, i.e. is an option field sourced from stories
+ */
+export function isRelationField(value: ComponentSchemaField): boolean {
+  return (value.type === "option" || value.type === "options") && value.source === "internal_stories";
+}
+
+/**
+ * Returns the content types of the stories a relation field may point to
+ *
+ * @returns The content types allowed by the field's `filter_content_type`, or every content type of the space
+ */
+export function getRelationContentTypes(value: ComponentSchemaField, context: GenerationContext): string[] {
+  const contentTypes = getFilteredContentTypes(value);
+  return contentTypes.length > 0 ? contentTypes : context.taxonomy.getContentTypes();
+}
+
+/**
+ * Handles the conversion of relation fields resolved when fetching stories, listed in --resolve-relations
+ *
+ * @remarks
+ * The UUIDs of the field are replaced by the stories they point to, so each of them becomes a story whose `content`
+ * is a blok of one of the content types the field allows. A non-required single relation may still be empty.
+ */
+export function handleResolvedRelationType(
+  value: ComponentSchemaField,
+  parentComponentName: string,
+  context: GenerationContext
+): SchemaNode {
+  const contentTypes = getRelationContentTypes(value, context);
+  const contentSchema = buildComponentsSchema(contentTypes, parentComponentName, context);
+
+  if (!contentSchema) {
+    context.tracer.log(
+      LogLevel.WARN,
+      `Resolved relation in component '${parentComponentName}' has no converted content type. ` +
+        "Its content will not be restricted."
+    );
+  }
+
+  const storySchema: SchemaNode = {
+    kind: "object",
+    properties: [
+      { name: "id", schema: { kind: "number" } },
+      { name: "uuid", schema: { kind: "string" } },
+      { name: "name", schema: { kind: "string" } },
+      { name: "slug", schema: { kind: "string" } },
+      { name: "full_slug", schema: { kind: "string" } },
+      { name: "content", schema: contentSchema ?? ANY_CONTENT_SCHEMA },
+    ],
+    loose: true,
+  };
+
+  if (value.type === "options") {
+    return { kind: "array", items: storySchema };
+  }
+
+  return !value.required && !value.exclude_empty_option
+    ? { kind: "union", options: [storySchema, { kind: "literal", value: "" }] }
+    : storySchema;
+}
+
+const ANY_CONTENT_SCHEMA: SchemaNode = {
+  kind: "object",
+  properties: [{ name: "component", schema: { kind: "string" } }],
+  loose: true,
+};
@@ -0,0 +1,189 @@
+import type { ComponentSchemaField, SchemaDeclaration, SchemaNode, SchemaProperty } from "../types";
+import type { GenerationContext } from "../context/GenerationContext";
+import { LogLevel } from "../context/Tracer";
+import { kebabToCamelCase, kebabToPascalCase } from "../utils";
+import { handleBloksType, resolveBloksWhitelist } from "./bloksHandler";
+
+/** Marks of text nodes that have no attributes */
+const SIMPLE_MARK_TYPES = ["bold", "italic", "strike", "underline", "code", "superscript", "subscript"];
+
+/** Interface of Storyblok's interface file describing a richtext document */
+const RICHTEXT_INTERFACE_NAME = "StoryblokRichtext";
+
+/** Nodes whose only content is a list of other nodes */
+const CONTAINER_NODE_TYPES = ["paragraph", "bullet_list", "list_item", "blockquote"];
+
+/**
+ * The richtext schemas of a component, emitted right before the component's schema
+ */
+export interface ComponentRichtextSchemas {
+  declarations: SchemaDeclaration[];
+  /** Name of the document schema for each set of allowed components, so that fields can share it */
+  documentSchemaNames: Map<string, string>;
+}
+
+/**
+ * Converts a 'richtext' type field to a reference to a recursive schema of its document
+ *
+ * @param richtextSchemas - The richtext schemas of the component, to which the schemas of this field are added
+ * @returns A reference to the schema of the field's document, e.g. `heroBodyRichtextSchema`
+ *
+ * @remarks
+ * Each richtext field gets the schemas of its nodes, since `blok` nodes are restricted to the components whitelisted
+ * by the field. Fields of the same component allowing the same components share their schemas. Nested nodes are
+ * referenced through `z.lazy()`, and the node schema is annotated with its type, e.g. `HeroBodyRichtextNode`.
+ */
+export function handleRichtextType(
+  value: ComponentSchemaField,
+  fieldName: string,
+  parentComponentName: string,
+  richtextSchemas: ComponentRichtextSchemas,
+  context: GenerationContext
+): SchemaNode {
+  const whitelist = resolveBloksWhitelist(value, context);
+  const blokSchema = handleBloksType(value, parentComponentName, context);
+  const prefix = kebabToCamelCase(parentComponentName) + kebabToPascalCase(fieldName.replace(/_/g, "-"));
+
+  // Reuse the schemas of another field of the component allowing the same components
+  const whitelistKey = whitelist ? [...whitelist].sort().join(",") : "*";
+  const existingSchemaName = richtextSchemas.documentSchemaNames.get(whitelistKey);
+  if (existingSchemaName) {
+    context.tracer.log(LogLevel.DEBUG, `Richtext field '${fieldName}' reuses '${existingSchemaName}'`);
+    return referenceDocumentSchema(existingSchemaName, context);
+  }
+
+  const nodeSchemaName = `${prefix}RichtextNodeSchema`;
+  const documentSchemaName = `${prefix}RichtextSchema`;
+
+  const documentContent: SchemaNode = { kind: "array", items: { kind: "ref", name: nodeSchemaName } };
+  richtextSchemas.declarations.push(
+    {
+      name: nodeSchemaName,
+      schema: buildRichtextNodeSchema(nodeSchemaName, blokSchema),
+      recursiveType: kebabToPascalCase(prefix) + "RichtextNode",
+    },
+    { name: documentSchemaName, schema: richtextNode("doc", [{ name: "content", schema: documentContent }]) }
+  );
+  richtextSchemas.documentSchemaNames.set(whitelistKey, documentSchemaName);
+
+  return referenceDocumentSchema(documentSchemaName, context);
+}
+
+/**
+ * References the schema of a richtext document, which stands for `StoryblokRichtext` if the interface file has it
+ */
+function referenceDocumentSchema(documentSchemaName: string, context: GenerationContext): SchemaNode {
+  const schema: SchemaNode = { kind: "ref", name: documentSchemaName };
+  if (context.nativeSchemas.has(RICHTEXT_INTERFACE_NAME)) {
+    schema.nativeType = RICHTEXT_INTERFACE_NAME;
+  }
+  return schema;
+}
+
+/**
+ * Builds the union of the richtext nodes, discriminated on their `type`
+ */
+function buildRichtextNodeSchema(nodeSchemaName: string, blokSchema: SchemaNode): SchemaNode {
+  const nestedNode: SchemaNode = { kind: "lazy", inner: { kind: "ref", name: nodeSchemaName } };
+  const content: SchemaProperty = { name: "content", schema: optional({ kind: "array", items: nestedNode }) };
+  const looseAttrs = (properties: SchemaProperty[]): SchemaNode => ({ kind: "object", properties, loose: true });
+  const nullableString = optional({ kind: "nullable", inner: { kind: "string" } });
+
+  return {
+    kind: "discriminatedUnion",
+    discriminator: "type",
+    options: [
+      ...CONTAINER_NODE_TYPES.map((type) => richtextNode(type, [content])),
+      richtextNode("heading", [
+        {
+          name: "attrs",
+          schema: looseAttrs([{ name: "level", schema: { kind: "number", int: true, min: 1, max: 6 } }]),
+        },
+        content,
+      ]),
+      richtextNode("ordered_list", [
+        { name: "attrs", schema: optional(looseAttrs([{ name: "order", schema: optional({ kind: "number" }) }])) },
+        content,
+      ]),
+      richtextNode("code_block", [
+        { name: "attrs", schema: optional(looseAttrs([{ name: "class", schema: nullableString }])) },
+        content,
+      ]),
+      richtextNode("text", [
+        { name: "text", schema: { kind: "string" } },
+        { name: "marks", schema: optional({ kind: "array", items: RICHTEXT_MARK_SCHEMA }) },
+      ]),
+      richtextNode("hard_break", []),
+      richtextNode("horizontal_rule", []),
+      richtextNode("image", [
+        {
+          name: "attrs",
+          schema: looseAttrs([
+            { name: "src", schema: { kind: "string" } },
+            { name: "alt", schema: nullableString },
+            { name: "title", schema: nullableString },
+            { name: "copyright", schema: nullableString },
+            { name: "id", schema: optional({ kind: "nullable", inner: { kind: "number" } }) },
+          ]),
+        },
+      ]),
+      richtextNode("emoji", [
+        {
+          name: "attrs",
+          schema: looseAttrs([
+            { name: "name", schema: { kind: "string" } },
+            { name: "emoji", schema: nullableString },
+            { name: "fallbackImage", schema: nullableString },
+          ]),
+        },
+      ]),
+      richtextNode("blok", [
+        {
+          name: "attrs",
+          schema: looseAttrs([
+            { name: "id", schema: { kind: "string" } },
+            { name: "body", schema: blokSchema },
+          ]),
+        },
+      ]),
+    ],
+  };
+}
+
+/** Schema of the marks of text nodes, discriminated on their `type` */
+const RICHTEXT_MARK_SCHEMA: SchemaNode = (() => {
+  const nullableString = optional({ kind: "nullable", inner: { kind: "string" } });
+  const mark = (type: string, attrs?: SchemaProperty[]): SchemaNode =>
+    richtextNode(type, attrs ? [{ name: "attrs", schema: { kind: "object", properties: attrs, loose: true } }] : []);
+
+  return {
+    kind: "discriminatedUnion",
+    discriminator: "type",
+    options: [
+      ...SIMPLE_MARK_TYPES.map((type) => mark(type)),
+      mark("link", [
+        { name: "href", schema: nullableString },
+        { name: "uuid", schema: nullableString },
+        { name: "anchor", schema: nullableString },
+        { name: "target", schema: nullableString },
+        { name: "linktype", schema: nullableString },
+      ]),
+      mark("anchor", [{ name: "id", schema: { kind: "string" } }]),
+      mark("styled", [{ name: "class", schema: { kind: "string" } }]),
+      mark("textStyle", [{ name: "color", schema: nullableString }]),
+      mark("highlight", [{ name: "color", schema: nullableString }]),
+    ],
+  };
+})();
+
+function richtextNode(type: string, properties: SchemaProperty[]): SchemaNode {
+  return {
+    kind: "object",
+    properties: [{ name: "type", schema: { kind: "literal", value: type } }, ...properties],
+    loose: true,
+  };
+}
+
+function optional(inner: SchemaNode): SchemaNode {
+  return { kind: "optional", inner };
+}
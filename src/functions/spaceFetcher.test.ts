@@ -0,0 +1,179 @@
+import fs from "fs/promises";
+import http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as CONSTANTS from "../constants";
+import { GenerationContext } from "../context/GenerationContext";
+import { LogLevel, Tracer } from "../context/Tracer";
+import type { CLIOptions } from "../validation";
+import { fetchSpace } from "./spaceFetcher";
+
+const SPACE_ID = "123456";
+
+/** Collections served by the mock Management API */
+interface MockSpace {
+  components: { name: string }[];
+  groups: { uuid: string; name: string }[];
+  tags: { id: number; name: string }[];
+  datasources: { id: number; slug: string }[];
+  entries: Map<number, { name: string; value: string }[]>;
+}
+
+interface MockApi {
+  baseUrl: string;
+  /** URLs of the requests received so far */
+  requests: URL[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts a mock of the Management API paginating its lists like the real one, and recording the requested paths
+ */
+async function startMockApi(space: MockSpace): Promise<MockApi> {
+  const requests: URL[] = [];
+  const spacePath = `/v1/spaces/${SPACE_ID}`;
+
+  const server = http.createServer((request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    requests.push(url);
+
+    const sendPage = (key: string, items: unknown[]) => {
+      const page = Number(url.searchParams.get("page") ?? 1);
+      const perPage = Number(url.searchParams.get("per_page") ?? 25);
+      response.writeHead(200, { "Content-Type": "application/json", total: String(items.length) });
+      response.end(JSON.stringify({ [key]: items.slice((page - 1) * perPage, page * perPage) }));
+    };
+
+    switch (url.pathname) {
+      case `${spacePath}/components`:
+        return sendPage("components", space.components);
+      case `${spacePath}/component_groups`:
+        return sendPage("component_groups", space.groups);
+      case `${spacePath}/internal_tags`:
+        return sendPage("internal_tags", space.tags);
+      case `${spacePath}/datasources`:
+        return sendPage("datasources", space.datasources);
+      case `${spacePath}/datasource_entries`:
+        return sendPage("datasource_entries", space.entries.get(Number(url.searchParams.get("datasource_id"))) ?? []);
+      default:
+        response.writeHead(404, { "Content-Type": "application/json" });
+        response.end(JSON.stringify({ error: `Unknown path ${url.pathname}` }));
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    requests,
+    close: () => new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
+
+function createContext(folder: string, apiBaseUrl: string): GenerationContext {
+  const options: CLIOptions = {
+    space: SPACE_ID,
+    folder,
+    fetch: true,
+    apiBaseUrl,
+    zodTarget: { importSource: "zod", api: "v3" },
+    format: "zod",
+    excludedComponents: [],
+    locales: [],
+    resolvedRelations: [],
+    fieldOverrides: new Map(),
+    fieldPlugins: new Map(),
+  };
+  return new GenerationContext(options, new Tracer(LogLevel.ERROR, false));
+}
+
+async function readJson(filePath: string): Promise<unknown> {
+  return JSON.parse(await fs.readFile(filePath, "utf8"));
+}
+
+describe("fetchSpace", () => {
+  let folder: string;
+  const previousToken = process.env[CONSTANTS.FETCH_TOKEN_ENV_VAR];
+
+  beforeEach(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), "storyblok-to-zod-fetch-"));
+    process.env[CONSTANTS.FETCH_TOKEN_ENV_VAR] = "test-token";
+  });
+
+  afterEach(async () => {
+    await fs.rm(folder, { recursive: true, force: true });
+    if (previousToken === undefined) {
+      delete process.env[CONSTANTS.FETCH_TOKEN_ENV_VAR];
+    } else {
+      process.env[CONSTANTS.FETCH_TOKEN_ENV_VAR] = previousToken;
+    }
+  });
+
+  it("fetches every page of each list from the base URL and writes the pulled files", async () => {
+    const space: MockSpace = {
+      components: Array.from({ length: 101 }, (_, index) => ({ name: `component-${index}` })),
+      groups: [{ uuid: "group-uuid", name: "Layout" }],
+      tags: [{ id: 1, name: "Hero" }],
+      datasources: Array.from({ length: 101 }, (_, index) => ({ id: index + 1, slug: `datasource-${index}` })),
+      entries: new Map([[1, [{ name: "Red", value: "red" }]]]),
+    };
+    const api = await startMockApi(space);
+
+    try {
+      await fetchSpace(createContext(folder, api.baseUrl));
+    } finally {
+      await api.close();
+    }
+
+    expect(api.requests.every((url) => url.pathname.startsWith(`/v1/spaces/${SPACE_ID}/`))).toBe(true);
+
+    const listPages = (pathname: string) =>
+      api.requests
+        .filter((url) => url.pathname === `/v1/spaces/${SPACE_ID}/${pathname}`)
+        .map((url) => url.searchParams.get("page"));
+    expect(listPages("components")).toEqual(["1", "2"]);
+    expect(listPages("datasources")).toEqual(["1", "2"]);
+
+    const componentsPath = path.join(folder, "components", SPACE_ID);
+    const datasourcesPath = path.join(folder, "datasources", SPACE_ID);
+    expect(await fs.readdir(componentsPath)).toHaveLength(103);
+    expect(await readJson(path.join(componentsPath, "component-100.json"))).toEqual({ name: "component-100" });
+    expect(await readJson(path.join(componentsPath, "groups.json"))).toEqual(space.groups);
+    expect(await readJson(path.join(componentsPath, "tags.json"))).toEqual(space.tags);
+    expect(await fs.readdir(datasourcesPath)).toHaveLength(101);
+    expect(await readJson(path.join(datasourcesPath, "datasource-0.json"))).toEqual({
+      id: 1,
+      slug: "datasource-0",
+      entries: [{ name: "Red", value: "red" }],
+    });
+  });
+
+  it("removes the components and datasources that no longer exist in the space", async () => {
+    const componentsPath = path.join(folder, "components", SPACE_ID);
+    const datasourcesPath = path.join(folder, "datasources", SPACE_ID);
+    await fs.mkdir(componentsPath, { recursive: true });
+    await fs.mkdir(datasourcesPath, { recursive: true });
+    await fs.writeFile(path.join(componentsPath, "deleted-component.json"), "{}");
+    await fs.writeFile(path.join(datasourcesPath, "deleted-datasource.json"), "{}");
+
+    const api = await startMockApi({
+      components: [{ name: "page" }],
+      groups: [],
+      tags: [],
+      datasources: [{ id: 1, slug: "colors" }],
+      entries: new Map(),
+    });
+
+    try {
+      await fetchSpace(createContext(folder, api.baseUrl));
+    } finally {
+      await api.close();
+    }
+
+    expect((await fs.readdir(componentsPath)).sort()).toEqual(["groups.json", "page.json", "tags.json"]);
+    expect(await fs.readdir(datasourcesPath)).toEqual(["colors.json"]);
+  });
+});
@@ -0,0 +1,275 @@
+import fs from "fs/promises";
+import path from "path";
+import { ManagementApiClient } from "@storyblok/management-api-client";
+import type { ManagementApiClientConfig } from "@storyblok/management-api-client";
+import * as CONSTANTS from "../constants";
+import { LogLevel } from "../context/Tracer";
+import type { GenerationContext } from "../context/GenerationContext";
+import { safeWriteFile } from "../utils";
+import { FileOperationError, isNonEmptyString, ValidationError } from "../validation";
+
+/** Maximum number of components, tags and datasources per page of the Management API */
+const PAGE_SIZE = 100;
+/** Maximum number of datasource entries per page of the Management API */
+const DATASOURCE_ENTRIES_PAGE_SIZE = 1000;
+
+/** Version prefix of the paths requested by the Management API client */
+const API_VERSION_PREFIX = "/v1/";
+
+/** Query of the datasources list, which the endpoint paginates like the other lists */
+type DatasourceListQuery = NonNullable<NonNullable<Parameters<ManagementApiClient["datasources"]["list"]>[0]>["query"]>;
+
+/** The fields of a response of the Management API client used here */
+interface ListResult<TData> {
+  data?: TData | undefined;
+  error?: unknown;
+  response?: Response | undefined;
+}
+
+/**
+ * Fetches the components, component groups, tags and datasources of the space with the Management API
+ *
+ * @remarks
+ * The files are written with the same layout as Storyblok's CLI, so that the rest of the pipeline does not tell them
+ * apart from pulled ones:
+ * - `components/<space>/<component-name>.json`, `groups.json` and `tags.json`
+ * - `datasources/<space>/<datasource-slug>.json`, each with its `entries`
+ *
+ * Previously pulled components and datasources that no longer exist in the space are removed. The personal access
+ * token is read from the STORYBLOK_TOKEN environment variable.
+ *
+ * @throws {ValidationError} When no token is provided
+ * @throws {FileOperationError} When the fetched files cannot be written
+ */
+export async function fetchSpace(context: GenerationContext): Promise<void> {
+  const { options, tracer } = context;
+  const token = process.env[CONSTANTS.FETCH_TOKEN_ENV_VAR];
+
+  if (!isNonEmptyString(token)) {
+    throw new ValidationError(
+      `Option --fetch requires a personal access token in the ${CONSTANTS.FETCH_TOKEN_ENV_VAR} environment variable`
+    );
+  }
+
+  const clientConfig: ManagementApiClientConfig = { token: { accessToken: token } };
+  if (options.region) {
+    clientConfig.region = options.region as NonNullable<ManagementApiClientConfig["region"]>;
+  }
+
+  const client = new ManagementApiClient(clientConfig);
+  const requestOverrides = options.apiBaseUrl ? { fetch: createRedirectingFetch(options.apiBaseUrl) } : {};
+  const spaceId = options.space;
+  const folderPath = path.resolve(options.folder);
+  const componentsPath = path.join(folderPath, "components", spaceId);
+  const datasourcesPath = path.join(folderPath, "datasources", spaceId);
+
+  tracer.log(LogLevel.VERBOSE, `Fetching space ${spaceId} from the Management API`);
+
+  const components = await fetchAllPages(
+    "components",
+    (page) =>
+      client.components.list({
+        path: { space_id: spaceId },
+        query: { page, per_page: PAGE_SIZE },
+        ...requestOverrides,
+      }),
+    (data) => data.components,
+    PAGE_SIZE
+  );
+  const groups = await fetchList(
+    "component groups",
+    client.componentFolders.list({ path: { space_id: spaceId }, ...requestOverrides }),
+    (data) => data.component_groups
+  );
+  const tags = await fetchAllPages(
+    "tags",
+    (page) =>
+      client.internalTags.list({
+        path: { space_id: spaceId },
+        query: { page, per_page: PAGE_SIZE, by_object_type: "component" },
+        ...requestOverrides,
+      }),
+    (data) => data.internal_tags,
+    PAGE_SIZE
+  );
+  const datasources = await fetchAllPages(
+    "datasources",
+    (page) =>
+      client.datasources.list({
+        path: { space_id: spaceId },
+        // The generated query type omits the pagination parameters the endpoint accepts
+        query: { page, per_page: PAGE_SIZE } as DatasourceListQuery,
+        ...requestOverrides,
+      }),
+    (data) => data.datasources,
+    PAGE_SIZE
+  );
+
+  await removeStaleFiles(
+    componentsPath,
+    new Set(components.map((component) => component.name)),
+    ["groups.json", "tags.json"],
+    "component",
+    context
+  );
+  await removeStaleFiles(
+    datasourcesPath,
+    new Set(datasources.map((datasource) => datasource.slug)),
+    [],
+    "datasource",
+    context
+  );
+
+  for (const component of components) {
+    await writeJsonFile(path.join(componentsPath, `${component.name}.json`), component, context);
+  }
+  await writeJsonFile(path.join(componentsPath, "groups.json"), groups, context);
+  await writeJsonFile(path.join(componentsPath, "tags.json"), tags, context);
+
+  for (const datasource of datasources) {
+    const entries = await fetchAllPages(
+      `entries of datasource '${datasource.slug}'`,
+      (page) =>
+        client.datasourceEntries.list({
+          path: { space_id: spaceId },
+          query: { page, per_page: DATASOURCE_ENTRIES_PAGE_SIZE, datasource_id: datasource.id },
+          ...requestOverrides,
+        }),
+      (data) => data.datasource_entries,
+      DATASOURCE_ENTRIES_PAGE_SIZE
+    );
+    await writeJsonFile(path.join(datasourcesPath, `${datasource.slug}.json`), { ...datasource, entries }, context);
+  }
+
+  tracer.log(
+    LogLevel.INFO,
+    `Fetched ${components.length} components, ${groups.length} component groups, ${tags.length} tags and ${
+      datasources.length
+    } datasources of space ${spaceId}`
+  );
+}
+
+/**
+ * Returns a fetch function sending the requests of the client to another base URL, e.g. a proxy or a mock server
+ *
+ * @remarks
+ * The client resolves the regional URL of the API even when given a `baseUrl`, so its requests are redirected instead.
+ * The base URL includes the version of the API, like `https://mapi.storyblok.com/v1`: the version prefix of the paths
+ * built by the client is replaced by it.
+ */
+function createRedirectingFetch(baseUrl: string): (request: Request) => Promise<Response> {
+  const directoryBaseUrl = baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`;
+
+  return (request) => {
+    const url = new URL(request.url);
+    const relativePath = url.pathname.startsWith(API_VERSION_PREFIX)
+      ? url.pathname.slice(API_VERSION_PREFIX.length)
+      : url.pathname.replace(/^\/+/, "");
+    return fetch(new Request(new URL(relativePath + url.search, directoryBaseUrl), request));
+  };
+}
+
+/**
+ * Fetches every page of a paginated list, until the `total` header or a partial page says there is no more
+ */
+async function fetchAllPages<TData, TItem>(
+  resourceName: string,
+  fetchPage: (page: number) => Promise<ListResult<TData>>,
+  getItems: (data: TData) => TItem[] | undefined,
+  pageSize: number
+): Promise<TItem[]> {
+  const items: TItem[] = [];
+
+  for (let page = 1; ; page++) {
+    const { items: pageItems, total } = await getListItems(resourceName, fetchPage(page), getItems);
+    items.push(...pageItems);
+
+    if (pageItems.length < pageSize || (total !== undefined && items.length >= total)) {
+      return items;
+    }
+  }
+}
+
+/**
+ * Fetches a list that is not paginated
+ */
+async function fetchList<TData, TItem>(
+  resourceName: string,
+  request: Promise<ListResult<TData>>,
+  getItems: (data: TData) => TItem[] | undefined
+): Promise<TItem[]> {
+  return (await getListItems(resourceName, request, getItems)).items;
+}
+
+async function getListItems<TData, TItem>(
+  resourceName: string,
+  request: Promise<ListResult<TData>>,
+  getItems: (data: TData) => TItem[] | undefined
+): Promise<{ items: TItem[]; total: number | undefined }> {
+  let result: ListResult<TData>;
+  try {
+    result = await request;
+  } catch (error) {
+    throw new Error(
+      `Failed to fetch ${resourceName} from the Management API: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  if (result.error !== undefined || !result.data) {
+    const status = result.response ? ` (HTTP ${result.response.status})` : "";
+    const details = typeof result.error === "string" ? result.error : JSON.stringify(result.error ?? "No data");
+    throw new Error(`Failed to fetch ${resourceName} from the Management API${status}: ${details}`);
+  }
+
+  const totalHeader = result.response?.headers.get("total");
+  return {
+    items: getItems(result.data) ?? [],
+    total: totalHeader ? Number(totalHeader) : undefined,
+  };
+}
+
+/**
+ * Removes the files of components or datasources that were pulled before but no longer exist in the space
+ */
+async function removeStaleFiles(
+  folderPath: string,
+  fetchedNames: Set<string>,
+  ignoredFiles: string[],
+  kind: "component" | "datasource",
+  context: GenerationContext
+): Promise<void> {
+  let files: string[];
+  try {
+    files = await fs.readdir(folderPath);
+  } catch {
+    // Nothing was pulled yet
+    return;
+  }
+
+  for (const fileName of files) {
+    if (!fileName.endsWith(".json") || ignoredFiles.includes(fileName)) {
+      continue;
+    }
+
+    const name = path.basename(fileName, ".json");
+    if (!fetchedNames.has(name)) {
+      const filePath = path.join(folderPath, fileName);
+      try {
+        await fs.rm(filePath);
+      } catch (error) {
+        throw new FileOperationError(
+          `Failed to remove stale ${kind} file: ${error instanceof Error ? error.message : "Unknown error"}`,
+          filePath,
+          "remove"
+        );
+      }
+      context.tracer.log(LogLevel.VERBOSE, `Removed ${kind} '${name}' not in the space`);
+    }
+  }
+}
+
+async function writeJsonFile(filePath: string, data: unknown, context: GenerationContext): Promise<void> {
+  await safeWriteFile(filePath, JSON.stringify(data, null, 2) + "\n", context.tracer);
+}
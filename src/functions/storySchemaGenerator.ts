@@ -0,0 +1,152 @@
+import type { SchemaDeclaration, SchemaNode, SchemaProperty } from "../types";
+import { LogLevel } from "../context/Tracer";
+import type { GenerationContext } from "../context/GenerationContext";
+import { kebabToCamelCase, kebabToPascalCase, pascalToCamelCase } from "../utils";
+import { buildComponentUnion } from "./bloksHandler";
+
+/** Interfaces of Storyblok's interface file describing a story, by order of preference */
+const STORY_INTERFACE_NAMES = ["StoryblokStory", "ISbStoryData"];
+
+/**
+ * A story schema, along with the name of its exported type, e.g. `Story` for `storySchema`
+ */
+export interface StorySchemaDeclaration extends SchemaDeclaration {
+  typeName: string;
+}
+
+/** Names of a story schema and of its type */
+type StorySchemaNames = Pick<StorySchemaDeclaration, "name" | "typeName">;
+
+const CONTENT_TYPE_SCHEMA_NAMES: StorySchemaNames = { name: "contentTypeSchema", typeName: "ContentTypeBlok" };
+const NESTABLE_BLOK_SCHEMA_NAMES: StorySchemaNames = { name: "nestableBlokSchema", typeName: "NestableBlok" };
+const STORY_SCHEMA_NAMES: StorySchemaNames = { name: "storySchema", typeName: "Story" };
+
+/**
+ * Generates the schemas of the content types, of the nestable bloks and of the stories returned by the CDN
+ *
+ * @returns The declarations of `contentTypeSchema` and `storySchema` if there is a converted content type, and of
+ * `nestableBlokSchema` if there is a converted nestable component
+ *
+ * @remarks
+ * The names of a schema and of its type are prefixed with `sb` if a component or a native schema already has one of
+ * them, e.g. `sbStorySchema` and `SbStory` if there is a `story` component.
+ *
+ * The content types and nestable components are the components flagged `is_root` and `is_nestable`, and their unions
+ * are discriminated on the `component` key unless one of them is part of a cycle. The story envelope extends the native
+ * schema of a story interface of Storyblok's interface file if there is one (e.g. `StoryblokStory`), marking it as
+ * used, and otherwise lists the properties of a story returned by the CDN.
+ */
+export function generateStorySchemas(context: GenerationContext): StorySchemaDeclaration[] {
+  const declarations: StorySchemaDeclaration[] = [];
+  const contentTypeNames = resolveStorySchemaNames(CONTENT_TYPE_SCHEMA_NAMES, context);
+
+  const contentTypeSchema = buildConvertedComponentUnion(context.taxonomy.getContentTypes(), context);
+  if (contentTypeSchema) {
+    declarations.push({ ...contentTypeNames, schema: contentTypeSchema });
+  } else {
+    context.tracer.log(LogLevel.VERBOSE, "No content type was converted. Skipping the story schema.");
+  }
+
+  const nestableBlokSchema = buildConvertedComponentUnion(context.taxonomy.getNestableComponents(), context);
+  if (nestableBlokSchema) {
+    declarations.push({ ...resolveStorySchemaNames(NESTABLE_BLOK_SCHEMA_NAMES, context), schema: nestableBlokSchema });
+  }
+
+  if (contentTypeSchema) {
+    declarations.push({
+      ...resolveStorySchemaNames(STORY_SCHEMA_NAMES, context),
+      schema: buildStorySchema(contentTypeNames.name, context),
+    });
+  }
+
+  return declarations;
+}
+
+/**
+ * Prefixes the names of a story schema and of its type with `sb` as long as a component or a native schema already
+ * declares one of them
+ */
+function resolveStorySchemaNames(names: StorySchemaNames, context: GenerationContext): StorySchemaNames {
+  const declaredNames = new Set([
+    ...context.convertedComponents
+      .getAll()
+      .flatMap(([componentName]) => [
+        kebabToCamelCase(componentName) + "Schema",
+        kebabToPascalCase(componentName) + "Blok",
+      ]),
+    ...Array.from(context.nativeSchemas.getAll().keys()).flatMap((interfaceName) => [
+      pascalToCamelCase(interfaceName) + "Schema",
+      interfaceName,
+    ]),
+  ]);
+
+  let { name, typeName } = names;
+  while (declaredNames.has(name) || declaredNames.has(typeName)) {
+    name = "sb" + name.charAt(0).toUpperCase() + name.slice(1);
+    typeName = "Sb" + typeName;
+  }
+
+  if (name !== names.name) {
+    context.tracer.log(
+      LogLevel.WARN,
+      `'${names.name}' or its type '${names.typeName}' is already declared. ` +
+        `Declaring '${name}' and '${typeName}' instead.`
+    );
+  }
+
+  return { name, typeName };
+}
+
+function buildConvertedComponentUnion(componentNames: string[], context: GenerationContext): SchemaNode | undefined {
+  // Follow the order of the converted components, which is stable between runs
+  const convertedNames = context.convertedComponents
+    .getAll()
+    .map(([componentName]) => componentName)
+    .filter((componentName) => componentNames.includes(componentName));
+
+  return convertedNames.length > 0 ? buildComponentUnion(convertedNames, context) : undefined;
+}
+
+function buildStorySchema(contentTypeSchemaName: string, context: GenerationContext): SchemaNode {
+  const content: SchemaProperty = { name: "content", schema: { kind: "ref", name: contentTypeSchemaName } };
+
+  const storyInterfaceName = STORY_INTERFACE_NAMES.find((name) => context.nativeSchemas.has(name));
+  if (storyInterfaceName) {
+    context.nativeSchemas.markAsUsed(storyInterfaceName);
+    context.tracer.log(LogLevel.DEBUG, `Story schema extends the native schema of '${storyInterfaceName}'`);
+    const base: SchemaNode = { kind: "ref", name: pascalToCamelCase(storyInterfaceName) + "Schema" };
+    return { kind: "extend", base, properties: [content] };
+  }
+
+  const optionalNullable = (inner: SchemaNode): SchemaNode => ({ kind: "optional", inner: { kind: "nullable", inner } });
+  const optional = (inner: SchemaNode): SchemaNode => ({ kind: "optional", inner });
+
+  return {
+    kind: "object",
+    properties: [
+      { name: "id", schema: { kind: "number" } },
+      { name: "uuid", schema: { kind: "string" } },
+      { name: "name", schema: { kind: "string" } },
+      { name: "slug", schema: { kind: "string" } },
+      { name: "full_slug", schema: { kind: "string" } },
+      { name: "lang", schema: optional({ kind: "string" }) },
+      { name: "path", schema: optionalNullable({ kind: "string" }) },
+      { name: "created_at", schema: optional({ kind: "string" }) },
+      { name: "published_at", schema: optionalNullable({ kind: "string" }) },
+      { name: "first_published_at", schema: optionalNullable({ kind: "string" }) },
+      { name: "sort_by_date", schema: optionalNullable({ kind: "string" }) },
+      { name: "position", schema: optional({ kind: "number" }) },
+      { name: "tag_list", schema: optional({ kind: "array", items: { kind: "string" } }) },
+      { name: "is_startpage", schema: optional({ kind: "boolean" }) },
+      { name: "parent_id", schema: optionalNullable({ kind: "number" }) },
+      { name: "group_id", schema: optional({ kind: "string" }) },
+      { name: "release_id", schema: optionalNullable({ kind: "number" }) },
+      { name: "default_full_slug", schema: optionalNullable({ kind: "string" }) },
+      { name: "translated_slugs", schema: optionalNullable({ kind: "array", items: { kind: "unknown" } }) },
+      { name: "alternates", schema: optional({ kind: "array", items: { kind: "unknown" } }) },
+      { name: "meta_data", schema: optional({ kind: "unknown" }) },
+      content,
+    ],
+    loose: true,
+  };
+}
@@ -1,38 +1,72 @@
-import type { Components } from "@storyblok/management-api-client";
-import { LogLevel, Tracer } from "../statics/Tracer";
+import type { ComponentSchemaField, SchemaNode, SchemaProperty } from "../types";
+import { LogLevel } from "../context/Tracer";
+import type { GenerationContext } from "../context/GenerationContext";
 import { handleBloksType } from "./bloksHandler";
+import { handleMultilinkType } from "./multilinkHandler";
+import { handleCustomType } from "./fieldPluginHandler";
+import { handleOptionType, handleOptionsType } from "./optionsHandler";
+
+/** Schema of table fields, used when Storyblok's interface file has no `StoryblokTable` interface */
+const TABLE_SCHEMA: SchemaNode = (() => {
+  const cell = (properties: SchemaProperty[]): SchemaNode => ({
+    kind: "object",
+    properties: [{ name: "_uid", schema: { kind: "string" } }, ...properties],
+    loose: true,
+  });
+  const value: SchemaProperty = { name: "value", schema: { kind: "optional", inner: { kind: "string" } } };
+  const row = cell([value]);
+  const body: SchemaProperty = { name: "body", schema: { kind: "array", items: row } };
+
+  return {
+    kind: "object",
+    properties: [
+      { name: "thead", schema: { kind: "array", items: row } },
+      { name: "tbody", schema: { kind: "array", items: cell([body]) } },
+    ],
+    loose: true,
+  };
+})();
 
 /**
- * Converts a Storyblok field type to its corresponding Zod schema string representation.
+ * Converts a Storyblok field type to its corresponding Zod schema, as a node of the intermediate schema representation.
  *
  * This function maps various Storyblok field types to appropriate Zod validation schemas,
  * handling primitive types, nested components, assets, and rich text content.
  *
  * @param value - The Storyblok field configuration object containing type and other metadata
  * @param parentComponentName - The name of the parent component that contains this field
- * @returns A string representation of the corresponding Zod schema
+ * @param context - The context of the current run, holding the registries used to resolve references
+ * @returns The corresponding schema node, rendered by renderSchemaNode() for the targeted Zod API
  *
  * @example
  * ```typescript
  * // For a text field
- * convertSbToZodType({ type: 'text' }, 'Hero') // Returns: 'z.string()'
+ * convertSbToZodType({ type: 'text' }, 'Hero') // Renders: 'z.string()'
  *
  * // For a bloks field with component whitelist
  * convertSbToZodType({
  *   type: 'bloks',
  *   component_whitelist: ['Button', 'Image']
- * }, 'Section') // Returns: 'z.any()'
+ * }, 'Section') // Renders: 'z.array(z.discriminatedUnion("component", [buttonSchema, imageSchema]))'
  * ```
  *
  * @remarks
  * - String types (text, textarea) are converted to `z.string()`
- * - Bloks fields with component whitelists will log warnings for unconverted nested components
- * - Special Storyblok types like multilink, asset, and richtext use predefined schema references
- * - Options fields support both number and string values
- * - Fallback behavior returns `z.${storyblokType}()` for unhandled types
+ * - Bloks fields are arrays; component whitelists will log warnings for unconverted nested components
+ * - Custom fields use the schema of the plugin registered for their `field_type`
+ * - Multilink fields are unions of the link types allowed by the field
+ * - Special Storyblok types like asset, multiasset and table use predefined schema references
+ * - Option fields sourced from stories hold story UUIDs, and the ones sourced from languages hold language codes
+ * - Richtext fields are not handled here, since their schemas are declared per field by handleRichtextType()
+ * - Self-sourced option fields become a `z.enum()` (or a union of literals for numeric values) of their choices
+ * - Fallback behavior returns `z.any()` for unhandled types
  */
-export function convertSbToZodType(value: Components.ComponentSchemaField, parentComponentName: string): string {
-  Tracer.log(
+export function convertSbToZodType(
+  value: ComponentSchemaField,
+  parentComponentName: string,
+  context: GenerationContext
+): SchemaNode {
+  context.tracer.log(
     LogLevel.DEBUG,
     `Enter with parentComponentName='${parentComponentName}', value.type='${value.type}'`,
     "convertSbToZodType",
@@ -40,14 +74,14 @@ export function convertSbToZodType(value: Components.ComponentSchemaField, paren
   );
 
   if (!value.type) {
-    Tracer.log(
+    context.tracer.log(
       LogLevel.WARN,
       `Field in component '${parentComponentName}' is missing a 'type' property. Defaulting to 'z.any()'. Full field definition: ${JSON.stringify(
         value
       )}`,
       "convertSbToZodType"
     );
-    return "z.any()";
+    return { kind: "any" };
   }
 
   const storyblokType = value.type;
@@ -57,43 +91,50 @@ export function convertSbToZodType(value: Components.ComponentSchemaField, paren
     const convertToAnyTypes: string[] = [];
 
     if (stringTypes.includes(storyblokType)) {
-      return "z.string()";
+      return { kind: "string" };
     } else if (convertToAnyTypes.includes(storyblokType)) {
-      return "z.any()";
+      return { kind: "any" };
     } else if (storyblokType === "bloks") {
-      return handleBloksType(value, parentComponentName);
+      return handleBloksType(value, parentComponentName, context);
     } else if (storyblokType === "multilink") {
-      return "storyblokMultilinkSchema";
+      return handleMultilinkType(value, parentComponentName, context);
     } else if (storyblokType === "option") {
-      return "z.union([z.number(), z.string()])";
+      return handleOptionType(value, parentComponentName, context);
     } else if (storyblokType === "options") {
-      return "z.array(z.union([z.number(), z.string()]))";
+      return handleOptionsType(value, parentComponentName, context);
     } else if (storyblokType === "asset") {
-      return "storyblokAssetSchema";
-    } else if (storyblokType === "richtext") {
-      return "storyblokRichtextSchema";
+      return { kind: "ref", name: "storyblokAssetSchema" };
+    } else if (storyblokType === "multiasset") {
+      // Without --extends-array, the native schema of StoryblokMultiasset is not a list of assets
+      return context.options.extendsArray && context.nativeSchemas.has("StoryblokMultiasset")
+        ? { kind: "ref", name: "storyblokMultiassetSchema" }
+        : { kind: "array", items: { kind: "ref", name: "storyblokAssetSchema" } };
+    } else if (storyblokType === "table") {
+      return context.nativeSchemas.has("StoryblokTable") ? { kind: "ref", name: "storyblokTableSchema" } : TABLE_SCHEMA;
     } else if (storyblokType === "number") {
-      return "z.number()";
+      return { kind: "number" };
     } else if (storyblokType === "boolean") {
-      return "z.boolean()";
+      return { kind: "boolean" };
     } else if (storyblokType === "datetime") {
-      return "z.string().datetime()";
+      return { kind: "string", format: "datetime" };
+    } else if (storyblokType === "custom") {
+      return handleCustomType(value, parentComponentName, context);
     }
 
     // Fallback for unknown types
-    Tracer.log(
+    context.tracer.log(
       LogLevel.WARN,
       `Unknown Storyblok field type '${storyblokType}' in component '${parentComponentName}'. Using fallback.`
     );
 
-    return `z.any() /* Unknown type: ${storyblokType} */`;
+    return { kind: "any", comment: `Unknown type: ${storyblokType}` };
   } catch (error) {
-    Tracer.log(
+    context.tracer.log(
       LogLevel.ERROR,
       `Error converting field type '${storyblokType}' in component '${parentComponentName}': ${
         error instanceof Error ? error.message : "Unknown error"
       }`
     );
-    return "z.any()";
+    return { kind: "any" };
   }
 }
\ No newline at end of file
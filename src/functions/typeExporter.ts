@@ -0,0 +1,104 @@
+import { LogLevel, Tracer } from "../context/Tracer";
+
+/**
+ * A generated schema for which TypeScript types should be exported
+ */
+export interface TypedSchema {
+  /** Name of the schema constant, e.g. "heroSchema" */
+  schemaName: string;
+  /** Name of the exported type, e.g. "HeroBlok" */
+  typeName: string;
+  /** Generated code declaring the schema */
+  content: string;
+}
+
+/** Zod APIs making the input type of a schema differ from its output type */
+const TRANSFORM_PATTERN = /\.(transform|default|catch|pipe)\(|\bz\.(preprocess|coerce)\b/;
+
+/**
+ * Appends `export type X = z.infer<typeof xSchema>;` after each schema declaration.
+ *
+ * @param schemas - The schemas to export types for
+ * @param tracer - The tracer of the current run
+ * @param reservedNames - Names already declared by the generated code (e.g. imported interfaces), which are skipped
+ * @returns The content of each schema, in the same order, followed by its type exports
+ *
+ * @remarks
+ * An additional `XInput` type using `z.input` is exported for schemas whose input type differs from their output type,
+ * which is the case when they use transforms or defaults, directly or through another schema they reference.
+ */
+export function appendTypeExports(
+  schemas: TypedSchema[],
+  tracer: Tracer,
+  reservedNames: Set<string> = new Set()
+): string[] {
+  const transformingSchemas = findTransformingSchemas(schemas);
+
+  return schemas.map(({ schemaName, typeName, content }) => {
+    if (reservedNames.has(typeName)) {
+      tracer.log(
+        LogLevel.VERBOSE,
+        `Type '${typeName}' is already declared in the generated code. Not exporting it for '${schemaName}'.`
+      );
+      return content;
+    }
+
+    let typeExports = `export type ${typeName} = z.infer<typeof ${schemaName}>;\n`;
+
+    if (transformingSchemas.has(schemaName)) {
+      typeExports += `export type ${typeName}Input = z.input<typeof ${schemaName}>;\n`;
+    }
+
+    return `${content.trimEnd()}\n${typeExports}`;
+  });
+}
+
+/**
+ * Returns the identifiers imported by `import` statements in the given code
+ */
+export function getImportedIdentifiers(content: string): Set<string> {
+  const identifiers = new Set<string>();
+  const importRegex = /import\s+(?:type\s+)?\{([^}]+)\}\s+from/g;
+
+  for (const match of content.matchAll(importRegex)) {
+    for (const item of match[1]!.split(",")) {
+      // Handles `type X` and `X as Y`
+      const identifier = item.trim().replace(/^type\s+/, "").split(/\s+as\s+/).pop();
+      if (identifier) {
+        identifiers.add(identifier);
+      }
+    }
+  }
+
+  return identifiers;
+}
+
+/**
+ * Finds the schemas using transforms, either directly or through the schemas they reference
+ */
+function findTransformingSchemas(schemas: TypedSchema[]): Set<string> {
+  const transforming = new Set(
+    schemas.filter(({ content }) => TRANSFORM_PATTERN.test(content)).map(({ schemaName }) => schemaName)
+  );
+
+  let changed = transforming.size > 0;
+  while (changed) {
+    changed = false;
+    for (const { schemaName, content } of schemas) {
+      if (transforming.has(schemaName)) {
+        continue;
+      }
+
+      const referencesTransformingSchema = Array.from(transforming).some((name) =>
+        new RegExp(`\\b${name}\\b`).test(content)
+      );
+
+      if (referencesTransformingSchema) {
+        transforming.add(schemaName);
+        changed = true;
+      }
+    }
+  }
+
+  return transforming;
+}
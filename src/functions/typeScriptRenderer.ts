@@ -0,0 +1,193 @@
+import type { SchemaDeclaration, SchemaNode, SchemaProperty } from "../types";
+
+/**
+ * Returns the name of the type of a generated schema, e.g. "heroSchema" -> "HeroBlok"
+ */
+export type TypeNameResolver = (schemaName: string) => string;
+
+/**
+ * Returns the default name of the type of a schema, e.g. "colorsDatasourceSchema" -> "ColorsDatasource"
+ */
+export function getDefaultTypeName(schemaName: string): string {
+  const baseName = schemaName.replace(/Schema$/, "");
+  return baseName.charAt(0).toUpperCase() + baseName.slice(1);
+}
+
+/**
+ * Renders a schema declaration as a type declaration, e.g. `export interface HeroBlok { ... }`
+ *
+ * @remarks
+ * Object schemas are declared as interfaces, and other schemas as type aliases.
+ */
+export function renderTypeDeclaration(declaration: SchemaDeclaration, resolveTypeName: TypeNameResolver): string {
+  const typeName = resolveTypeName(declaration.name);
+  const { schema } = declaration;
+  const options: TypeRenderOptions = { resolveTypeName, useNativeTypes: true };
+
+  if (schema.kind === "object" && schema.nativeType === undefined && schema.description === undefined) {
+    return `export interface ${typeName} ${renderObjectType(schema.properties, schema.loose, options, "")}\n`;
+  }
+
+  return `export type ${typeName} = ${renderNode(schema, options, "")};\n`;
+}
+
+/**
+ * Renders a schema node as the TypeScript type of the data it accepts
+ *
+ * @param node - The schema to render
+ * @param resolveTypeName - Returns the type of the schemas referenced by the node
+ * @param indent - Indentation of the line the type starts on, used for multi-line objects
+ *
+ * @remarks
+ * Schemas standing for an interface of Storyblok's interface file are rendered as this interface. Objects are typed
+ * like `z.infer` does: optional properties may be `undefined`, and loose objects have an index signature.
+ */
+export function renderTypeNode(node: SchemaNode, resolveTypeName: TypeNameResolver, indent: string = ""): string {
+  return renderNode(node, { resolveTypeName, useNativeTypes: true }, indent);
+}
+
+/**
+ * Renders a schema node as the type Zod infers from it, e.g. to annotate a recursive schema
+ *
+ * @remarks
+ * Unlike {@link renderTypeNode}, schemas standing for an interface of Storyblok's interface file are rendered from
+ * their own structure, since Zod modules do not import these interfaces.
+ */
+export function renderInferredTypeNode(node: SchemaNode, resolveTypeName: TypeNameResolver): string {
+  return renderNode(node, { resolveTypeName, useNativeTypes: false }, "");
+}
+
+interface TypeRenderOptions {
+  resolveTypeName: TypeNameResolver;
+  /** Whether schemas standing for an interface of Storyblok's interface file are rendered as this interface */
+  useNativeTypes: boolean;
+}
+
+function renderNode(node: SchemaNode, options: TypeRenderOptions, indent: string): string {
+  const nativeType = options.useNativeTypes ? node.nativeType : undefined;
+  const rendered = nativeType ?? renderWithoutDescription(node, options, indent);
+
+  return node.description === undefined ? rendered : `${rendered} /* ${node.description.replace(/\*\//g, "* /")} */`;
+}
+
+function renderWithoutDescription(node: SchemaNode, options: TypeRenderOptions, indent: string): string {
+  const render = (child: SchemaNode) => renderNode(child, options, indent);
+  const renderOperand = (child: SchemaNode) => (isCompound(child, options) ? `(${render(child)})` : render(child));
+
+  switch (node.kind) {
+    case "string":
+      return "string";
+
+    case "number":
+      return "number";
+
+    case "boolean":
+    case "null":
+    case "undefined":
+    case "unknown":
+      return node.kind;
+
+    case "any":
+      return node.comment ? `any /* ${node.comment} */` : "any";
+
+    case "literal":
+      return JSON.stringify(node.value);
+
+    case "enum":
+      return node.values.map((value) => JSON.stringify(value)).join(" | ");
+
+    case "array":
+      return `${renderOperand(node.items)}[]`;
+
+    case "object":
+      return renderObjectType(node.properties, node.loose, options, indent);
+
+    // Like `.extend()`, the properties replace the ones of the base
+    case "extend": {
+      const replacedKeys = node.properties.map(({ name }) => JSON.stringify(name)).join(" | ");
+      const base = replacedKeys ? `Omit<${render(node.base)}, ${replacedKeys}>` : renderOperand(node.base);
+      return `${base} & ${renderObjectType(node.properties, false, options, indent)}`;
+    }
+
+    case "record":
+      return `Record<string, ${render(node.values)}>`;
+
+    // Unions need no parentheses, since intersections take precedence over them
+    case "union":
+    case "discriminatedUnion":
+      return node.options.map(render).join(" | ");
+
+    case "intersection":
+      return `${renderOperand(node.left)} & ${renderOperand(node.right)}`;
+
+    case "optional":
+      return `${render(node.inner)} | undefined`;
+
+    case "nullable":
+      return `${render(node.inner)} | null`;
+
+    case "lazy":
+      return render(node.inner);
+
+    case "ref":
+      return options.resolveTypeName(node.name);
+
+    case "raw":
+      return `unknown /* ${node.expression.replace(/\*\//g, "* /")} */`;
+  }
+}
+
+/**
+ * Checks whether the type of a node is a union or an intersection, which needs parentheses as an array item or as an
+ * operand of an intersection
+ */
+function isCompound(node: SchemaNode, options: TypeRenderOptions): boolean {
+  if (options.useNativeTypes && node.nativeType !== undefined) {
+    return false;
+  }
+
+  switch (node.kind) {
+    case "enum":
+      return node.values.length > 1;
+    case "union":
+    case "discriminatedUnion":
+    case "intersection":
+    case "extend":
+    case "optional":
+    case "nullable":
+      return true;
+    case "lazy":
+      return isCompound(node.inner, options);
+    default:
+      return false;
+  }
+}
+
+function renderObjectType(
+  properties: SchemaProperty[],
+  loose: boolean | undefined,
+  options: TypeRenderOptions,
+  indent: string
+): string {
+  if (properties.length === 0 && !loose) {
+    return "{}";
+  }
+
+  const propertyIndent = indent + "  ";
+  const lines = properties.map(({ name, schema }) => {
+    const propertyName = renderPropertyName(name);
+    const type = renderNode(schema, options, propertyIndent);
+    return schema.kind === "optional" && (!options.useNativeTypes || schema.nativeType === undefined)
+      ? `${propertyIndent}${propertyName}?: ${type};`
+      : `${propertyIndent}${propertyName}: ${type};`;
+  });
+  if (loose) {
+    lines.push(`${propertyIndent}[key: string]: unknown;`);
+  }
+
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+function renderPropertyName(name: string): string {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
@@ -0,0 +1,148 @@
+/** Number of unchanged lines shown around each change */
+const CONTEXT_LINES = 3;
+
+type DiffLine = { kind: " " | "-" | "+"; text: string };
+
+/**
+ * Creates a unified diff between two texts, as printed by `diff -u`
+ *
+ * @remarks
+ * Lines are matched with a longest common subsequence, computed only between the first and the last differing lines
+ * since generated files usually change in a few places.
+ *
+ * @returns The diff, or an empty string if the texts are identical
+ */
+export function createUnifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string): string {
+  if (oldText === newText) {
+    return "";
+  }
+
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  for (const hunk of groupHunks(lines)) {
+    output.push(...hunk);
+  }
+
+  return output.join("\n") + "\n";
+}
+
+function splitLines(text: string): string[] {
+  if (text === "") {
+    return [];
+  }
+  const lines = text.split("\n");
+  return text.endsWith("\n") ? lines.slice(0, -1) : lines;
+}
+
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefixLength = 0;
+  while (
+    prefixLength < oldLines.length &&
+    prefixLength < newLines.length &&
+    oldLines[prefixLength] === newLines[prefixLength]
+  ) {
+    prefixLength++;
+  }
+
+  let suffixLength = 0;
+  while (
+    suffixLength < oldLines.length - prefixLength &&
+    suffixLength < newLines.length - prefixLength &&
+    oldLines[oldLines.length - 1 - suffixLength] === newLines[newLines.length - 1 - suffixLength]
+  ) {
+    suffixLength++;
+  }
+
+  const oldMiddle = oldLines.slice(prefixLength, oldLines.length - suffixLength);
+  const newMiddle = newLines.slice(prefixLength, newLines.length - suffixLength);
+
+  // lcsLengths[i * width + j] is the length of the longest common subsequence of oldMiddle[i:] and newMiddle[j:]
+  const width = newMiddle.length + 1;
+  const lcsLengths = new Uint32Array((oldMiddle.length + 1) * width);
+  for (let i = oldMiddle.length - 1; i >= 0; i--) {
+    for (let j = newMiddle.length - 1; j >= 0; j--) {
+      lcsLengths[i * width + j] =
+        oldMiddle[i] === newMiddle[j]
+          ? lcsLengths[(i + 1) * width + j + 1]! + 1
+          : Math.max(lcsLengths[(i + 1) * width + j]!, lcsLengths[i * width + j + 1]!);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldMiddle.length || j < newMiddle.length) {
+    if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+      middle.push({ kind: " ", text: oldMiddle[i++]! });
+      j++;
+    } else if (
+      j < newMiddle.length &&
+      (i === oldMiddle.length || lcsLengths[i * width + j + 1]! >= lcsLengths[(i + 1) * width + j]!)
+    ) {
+      middle.push({ kind: "+", text: newMiddle[j++]! });
+    } else {
+      middle.push({ kind: "-", text: oldMiddle[i++]! });
+    }
+  }
+
+  return [
+    ...oldLines.slice(0, prefixLength).map((text): DiffLine => ({ kind: " ", text })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffixLength).map((text): DiffLine => ({ kind: " ", text })),
+  ];
+}
+
+/**
+ * Groups the changed lines and their context into hunks, each starting with its `@@` header
+ */
+function groupHunks(lines: DiffLine[]): string[][] {
+  const hunks: string[][] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const firstChange = lines.findIndex((line, lineIndex) => lineIndex >= index && line.kind !== " ");
+    if (firstChange === -1) {
+      break;
+    }
+
+    // Extend the hunk while the next change is close enough for the contexts to overlap
+    let end = firstChange;
+    let unchangedRun = 0;
+    for (let lineIndex = firstChange; lineIndex < lines.length; lineIndex++) {
+      if (lines[lineIndex]!.kind === " ") {
+        unchangedRun++;
+        if (unchangedRun > CONTEXT_LINES * 2) {
+          break;
+        }
+      } else {
+        unchangedRun = 0;
+        end = lineIndex;
+      }
+    }
+
+    const start = Math.max(index, firstChange - CONTEXT_LINES);
+    const stop = Math.min(lines.length, end + CONTEXT_LINES + 1);
+    const hunkLines = lines.slice(start, stop);
+
+    const before = lines.slice(0, start);
+    const oldStart = before.filter((line) => line.kind !== "+").length;
+    const newStart = before.filter((line) => line.kind !== "-").length;
+    const oldCount = hunkLines.filter((line) => line.kind !== "+").length;
+    const newCount = hunkLines.filter((line) => line.kind !== "-").length;
+
+    hunks.push([
+      `@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`,
+      ...hunkLines.map((line) => line.kind + line.text),
+    ]);
+
+    index = stop;
+  }
+
+  return hunks;
+}
+
+/** Formats a range of a hunk header, whose start is 1-based unless the range is empty */
+function formatRange(start: number, count: number): string {
+  return `${count === 0 ? start : start + 1},${count}`;
+}
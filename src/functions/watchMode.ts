@@ -0,0 +1,173 @@
+import fs from "fs";
+import path from "path";
+import chalk from "chalk";
+import * as CONSTANTS from "../constants";
+import { getLogLevel, Tracer } from "../context/Tracer";
+import { GenerationContext } from "../context/GenerationContext";
+import { FileOperationError } from "../validation";
+import type { CLIOptions } from "../validation";
+import { convertSpace } from "./conversionPipeline";
+import { generateFinalOutput } from "./outputGenerator";
+import { reportError } from "./errorHandler";
+
+/** Delay without any change before regenerating, so that a whole pull triggers a single run */
+const WATCH_DEBOUNCE_MS = 300;
+
+/** Which inputs of the pipeline changed */
+type WatchedChange = "config" | "interfaces" | "components" | "datasources";
+
+export interface WatchModeOptions {
+  /** Resolves the options from the command line and the configuration file, called again when the latter changes */
+  resolveOptions: () => Promise<CLIOptions>;
+  /** Path of the configuration file, or `undefined` to watch for one appearing in the working directory */
+  configPath: string | undefined;
+}
+
+/**
+ * Generates the schemas, then regenerates them whenever the pulled Storyblok files or the configuration change
+ *
+ * @remarks
+ * Changes are debounced, and the Storyblok interface file is only processed again when it or the configuration
+ * changed. Errors of a run are reported without exiting, so that the next change gets another chance.
+ *
+ * @throws {FileOperationError} When the folders to watch cannot be watched
+ */
+export async function watchSpace(initialOptions: CLIOptions, watchOptions: WatchModeOptions): Promise<void> {
+  let options = initialOptions;
+  let previousContext: GenerationContext | undefined;
+  let pendingChanges = new Set<WatchedChange>();
+  let debounceTimer: NodeJS.Timeout | undefined;
+  let isRunning = false;
+  let watchers: fs.FSWatcher[] = [];
+
+  const scheduleRun = (change: WatchedChange): void => {
+    pendingChanges.add(change);
+    clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => void flushChanges(), WATCH_DEBOUNCE_MS);
+  };
+
+  const restartWatchers = (newOptions: CLIOptions): void => {
+    const newWatchers = startWatchers(newOptions, watchOptions.configPath, scheduleRun);
+    watchers.forEach((watcher) => watcher.close());
+    watchers = newWatchers;
+  };
+
+  const run = async (changes: Set<WatchedChange>): Promise<void> => {
+    if (changes.has("config")) {
+      try {
+        const newOptions = await watchOptions.resolveOptions();
+        if (newOptions.folder !== options.folder || newOptions.space !== options.space) {
+          restartWatchers(newOptions);
+        }
+        options = newOptions;
+      } catch (error) {
+        reportError(error, options.debug);
+        return;
+      }
+    }
+
+    // The native schemas depend on the interface file and on options such as --no-extends-array
+    if (changes.has("config") || changes.has("interfaces")) {
+      previousContext = undefined;
+    }
+
+    const context = new GenerationContext(options, new Tracer(getLogLevel(options)));
+    try {
+      if (await convertSpace(context, previousContext)) {
+        await generateFinalOutput(context);
+      }
+      previousContext = context;
+    } catch (error) {
+      reportError(error, options.debug);
+      previousContext = undefined;
+    }
+  };
+
+  const flushChanges = async (): Promise<void> => {
+    // Changes made during a run are flushed once it completes
+    if (isRunning) {
+      return;
+    }
+
+    isRunning = true;
+    const changes = pendingChanges;
+    pendingChanges = new Set();
+    await run(changes);
+    isRunning = false;
+
+    if (pendingChanges.size > 0) {
+      await flushChanges();
+    } else {
+      console.error(chalk.gray("Watching for changes..."));
+    }
+  };
+
+  restartWatchers(options);
+  await run(new Set<WatchedChange>(["interfaces", "components"]));
+  console.error(chalk.gray("Watching for changes..."));
+}
+
+/**
+ * Watches the components and datasources folders of the space, the Storyblok interface file and the configuration file
+ *
+ * @remarks
+ * Folders are watched rather than files, since pulling the files may replace them instead of modifying them. The
+ * datasources folder is optional, so it is only watched if it exists when the watchers start.
+ */
+function startWatchers(
+  options: CLIOptions,
+  configPath: string | undefined,
+  onChange: (change: WatchedChange) => void
+): fs.FSWatcher[] {
+  const folderPath = path.resolve(options.folder);
+  const datasourcesPath = path.join(folderPath, "datasources", options.space);
+  const configFileNames = configPath ? [path.basename(configPath)] : CONSTANTS.CONFIG_FILE_NAMES;
+
+  const watchers = [
+    watchDirectory(path.join(folderPath, "components", options.space), (fileName) => {
+      if (fileName.endsWith(".json")) {
+        onChange("components");
+      }
+    }),
+    watchDirectory(path.join(folderPath, "types"), (fileName) => {
+      if (fileName === CONSTANTS.SB_INTERFACES_FILE) {
+        onChange("interfaces");
+      }
+    }),
+    watchDirectory(configPath ? path.dirname(path.resolve(configPath)) : process.cwd(), (fileName) => {
+      if (configFileNames.includes(fileName)) {
+        onChange("config");
+      }
+    }),
+  ];
+
+  if (fs.existsSync(datasourcesPath)) {
+    watchers.push(
+      watchDirectory(datasourcesPath, (fileName) => {
+        if (fileName.endsWith(".json")) {
+          onChange("datasources");
+        }
+      })
+    );
+  }
+
+  return watchers;
+}
+
+function watchDirectory(directoryPath: string, onChange: (fileName: string) => void): fs.FSWatcher {
+  try {
+    const watcher = fs.watch(directoryPath, (_eventType, fileName) => {
+      if (fileName) {
+        onChange(fileName.toString());
+      }
+    });
+    watcher.on("error", (error) => reportError(new FileOperationError(error.message, directoryPath, "watch")));
+    return watcher;
+  } catch (error) {
+    throw new FileOperationError(
+      `Cannot watch directory: ${error instanceof Error ? error.message : "Unknown error"}`,
+      directoryPath,
+      "watch"
+    );
+  }
+}
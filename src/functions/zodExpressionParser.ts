@@ -0,0 +1,332 @@
+import { Expression, Node, Project, SyntaxKind, ts } from "ts-morph";
+import type { SchemaDeclaration, SchemaNode, SchemaProperty } from "../types";
+import { LogLevel, Tracer } from "../context/Tracer";
+
+/**
+ * Zod code parsed into the intermediate schema representation
+ */
+export interface ParsedZodModule {
+  /** Import statements, kept verbatim */
+  imports: string[];
+  declarations: SchemaDeclaration[];
+}
+
+/**
+ * Parses Zod code, such as the output of ts-to-zod, into schema declarations so that it can be rendered with any Zod
+ * API.
+ *
+ * @remarks
+ * Only the subset of the Zod v3 API emitted by ts-to-zod is understood. Unsupported expressions are kept verbatim as
+ * 'raw' nodes, and statements other than imports and `const` declarations are dropped with a warning.
+ */
+export function parseZodModule(content: string, tracer: Tracer): ParsedZodModule {
+  const project = new Project({
+    useInMemoryFileSystem: true,
+    compilerOptions: {
+      target: 99, // Latest
+    },
+  });
+
+  const sourceFile = project.createSourceFile("parsed.ts", content);
+  const imports: string[] = [];
+  const declarations: SchemaDeclaration[] = [];
+
+  for (const statement of sourceFile.getStatements()) {
+    if (Node.isImportDeclaration(statement)) {
+      imports.push(statement.getText());
+      continue;
+    }
+
+    if (!Node.isVariableStatement(statement)) {
+      tracer.log(LogLevel.WARN, `Unsupported statement dropped: ${statement.getText()}`, "parseZodModule");
+      continue;
+    }
+
+    for (const variable of statement.getDeclarations()) {
+      const initializer = variable.getInitializer();
+      if (!initializer) {
+        continue;
+      }
+
+      const declaration: SchemaDeclaration = { name: variable.getName(), schema: parseZodExpression(initializer) };
+
+      // e.g. `z.ZodSchema<StoryblokRichtext>`
+      const typeArguments = variable.getTypeNode()?.asKind(SyntaxKind.TypeReference)?.getTypeArguments() ?? [];
+      if (typeArguments.length === 1) {
+        declaration.annotationType = typeArguments[0]!.getText();
+      }
+
+      declarations.push(declaration);
+    }
+  }
+
+  return { imports, declarations };
+}
+
+/**
+ * Parses the source code of a Zod expression, e.g. `z.string().url()`, into a schema node
+ *
+ * @remarks
+ * Unsupported Zod calls are kept verbatim, so the expression must at least be a chain of calls starting on the `z`
+ * namespace for the generated code to make sense.
+ *
+ * @returns The schema node, or `undefined` if the code is not a syntactically valid expression calling `z`
+ */
+export function parseZodExpressionText(text: string): SchemaNode | undefined {
+  const wrappedText = `(${text});`;
+  const { diagnostics } = ts.transpileModule(wrappedText, { reportDiagnostics: true });
+  if (diagnostics && diagnostics.length > 0) {
+    return undefined;
+  }
+
+  const project = new Project({ useInMemoryFileSystem: true });
+  const statements = project.createSourceFile("expression.ts", wrappedText).getStatements();
+  const statement = statements.length === 1 ? statements[0] : undefined;
+  if (!statement || !Node.isExpressionStatement(statement) || !isZodCall(statement.getExpression())) {
+    return undefined;
+  }
+
+  return parseZodExpression(statement.getExpression());
+}
+
+/**
+ * Whether an expression is a call on the `z` namespace, possibly followed by method calls, e.g. `z.string().url()`
+ */
+function isZodCall(expression: Expression): boolean {
+  if (Node.isParenthesizedExpression(expression)) {
+    return isZodCall(expression.getExpression());
+  }
+
+  if (!Node.isCallExpression(expression)) {
+    return false;
+  }
+
+  const callee = expression.getExpression();
+  if (!Node.isPropertyAccessExpression(callee)) {
+    return false;
+  }
+
+  const target = callee.getExpression();
+  return (Node.isIdentifier(target) && target.getText() === "z") || isZodCall(target);
+}
+
+/**
+ * Parses a Zod expression into a schema node
+ */
+export function parseZodExpression(expression: Expression): SchemaNode {
+  const raw = (): SchemaNode => ({ kind: "raw", expression: expression.getText() });
+
+  if (Node.isIdentifier(expression)) {
+    return { kind: "ref", name: expression.getText() };
+  }
+
+  if (Node.isParenthesizedExpression(expression)) {
+    return parseZodExpression(expression.getExpression());
+  }
+
+  if (!Node.isCallExpression(expression)) {
+    return raw();
+  }
+
+  const callee = expression.getExpression();
+  const args = expression.getArguments().filter((arg): arg is Expression => Node.isExpression(arg));
+
+  if (!Node.isPropertyAccessExpression(callee)) {
+    return raw();
+  }
+
+  const method = callee.getName();
+  const target = callee.getExpression();
+
+  // Calls on the `z` namespace, e.g. `z.string()`
+  if (Node.isIdentifier(target) && target.getText() === "z") {
+    return parseZodFunction(method, args) ?? raw();
+  }
+
+  // Method calls on a schema, e.g. `z.string().optional()`
+  const schema = parseZodExpression(target);
+  return parseZodMethod(schema, method, args) ?? raw();
+}
+
+function parseZodFunction(name: string, args: Expression[]): SchemaNode | undefined {
+  const [first, second] = args;
+
+  switch (name) {
+    case "string":
+    case "number":
+    case "boolean":
+    case "null":
+    case "undefined":
+    case "unknown":
+    case "any":
+      return args.length === 0 ? { kind: name } : undefined;
+
+    case "literal": {
+      const value = first ? parseLiteralValue(first) : undefined;
+      return value === undefined ? undefined : { kind: "literal", value };
+    }
+
+    case "enum": {
+      if (!first || !Node.isArrayLiteralExpression(first)) {
+        return undefined;
+      }
+      const values = first.getElements().map((element) => parseLiteralValue(element));
+      return values.every((value) => typeof value === "string") ? { kind: "enum", values: values as string[] } : undefined;
+    }
+
+    case "array":
+      return first ? { kind: "array", items: parseZodExpression(first) } : undefined;
+
+    case "object":
+      return first ? parseShape(first, (properties) => ({ kind: "object", properties })) : undefined;
+
+    case "record":
+      if (args.length === 1 && first) {
+        return { kind: "record", values: parseZodExpression(first) };
+      }
+      // Only string keys are supported
+      if (args.length === 2 && first && second && first.getText() === "z.string()") {
+        return { kind: "record", values: parseZodExpression(second) };
+      }
+      return undefined;
+
+    case "union":
+      if (!first || !Node.isArrayLiteralExpression(first)) {
+        return undefined;
+      }
+      return { kind: "union", options: parseElements(first.getElements()) };
+
+    case "discriminatedUnion": {
+      const discriminator = first ? parseLiteralValue(first) : undefined;
+      if (typeof discriminator !== "string" || !second || !Node.isArrayLiteralExpression(second)) {
+        return undefined;
+      }
+      return { kind: "discriminatedUnion", discriminator, options: parseElements(second.getElements()) };
+    }
+
+    case "intersection":
+      return first && second
+        ? { kind: "intersection", left: parseZodExpression(first), right: parseZodExpression(second) }
+        : undefined;
+
+    case "lazy": {
+      if (!first || !Node.isArrowFunction(first)) {
+        return undefined;
+      }
+      const body = first.getBody();
+      return Node.isExpression(body) ? { kind: "lazy", inner: parseZodExpression(body) } : undefined;
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+function parseZodMethod(schema: SchemaNode, method: string, args: Expression[]): SchemaNode | undefined {
+  const [first] = args;
+
+  switch (method) {
+    case "optional":
+    case "nullable":
+      return args.length === 0 ? { kind: method, inner: schema } : undefined;
+
+    case "array":
+      return args.length === 0 ? { kind: "array", items: schema } : undefined;
+
+    case "or":
+      return first ? { kind: "union", options: [schema, parseZodExpression(first)] } : undefined;
+
+    case "and":
+      return first ? { kind: "intersection", left: schema, right: parseZodExpression(first) } : undefined;
+
+    case "passthrough":
+      return schema.kind === "object" && args.length === 0 ? { ...schema, loose: true } : undefined;
+
+    case "extend":
+      return first ? parseShape(first, (properties) => ({ kind: "extend", base: schema, properties })) : undefined;
+
+    case "describe": {
+      const description = first ? parseLiteralValue(first) : undefined;
+      return typeof description === "string" ? { ...schema, description } : undefined;
+    }
+
+    case "datetime":
+    case "uuid":
+    case "url":
+    case "email":
+      return schema.kind === "string" && args.length === 0 ? { ...schema, format: method } : undefined;
+
+    case "int":
+      return schema.kind === "number" && args.length === 0 ? { ...schema, int: true } : undefined;
+
+    case "min":
+    case "max": {
+      const value = first ? parseLiteralValue(first) : undefined;
+      if (typeof value !== "number" || args.length !== 1) {
+        return undefined;
+      }
+      if (schema.kind === "number") {
+        return { ...schema, [method]: value };
+      }
+      if (schema.kind === "string" || schema.kind === "array") {
+        return { ...schema, [method === "min" ? "minLength" : "maxLength"]: value };
+      }
+      return undefined;
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+function parseShape(
+  expression: Expression,
+  createNode: (properties: SchemaProperty[]) => SchemaNode
+): SchemaNode | undefined {
+  if (!Node.isObjectLiteralExpression(expression)) {
+    return undefined;
+  }
+
+  const properties: SchemaProperty[] = [];
+  for (const property of expression.getProperties()) {
+    if (!Node.isPropertyAssignment(property)) {
+      return undefined;
+    }
+
+    const initializer = property.getInitializer();
+    if (!initializer) {
+      return undefined;
+    }
+
+    const nameNode = property.getNameNode();
+    const name = Node.isStringLiteral(nameNode) ? nameNode.getLiteralValue() : nameNode.getText();
+    properties.push({ name, schema: parseZodExpression(initializer) });
+  }
+
+  return createNode(properties);
+}
+
+function parseElements(elements: Expression[]): SchemaNode[] {
+  return elements.map((element) => parseZodExpression(element));
+}
+
+function parseLiteralValue(expression: Expression): string | number | boolean | undefined {
+  if (Node.isStringLiteral(expression) || Node.isNoSubstitutionTemplateLiteral(expression)) {
+    return expression.getLiteralValue();
+  }
+
+  if (Node.isNumericLiteral(expression)) {
+    return expression.getLiteralValue();
+  }
+
+  if (Node.isPrefixUnaryExpression(expression) && expression.getOperatorToken() === SyntaxKind.MinusToken) {
+    const operand = expression.getOperand();
+    return Node.isNumericLiteral(operand) ? -operand.getLiteralValue() : undefined;
+  }
+
+  if (Node.isTrueLiteral(expression) || Node.isFalseLiteral(expression)) {
+    return expression.getLiteralValue();
+  }
+
+  return undefined;
+}
@@ -0,0 +1,207 @@
+import type { SchemaDeclaration, SchemaNode, SchemaProperty, ZodApi, ZodTarget } from "../types";
+import * as CONSTANTS from "../constants";
+import { renderInferredTypeNode } from "./typeScriptRenderer";
+
+/** Target used when analyzing the generated code, where the exact API does not matter */
+export const DEFAULT_ZOD_TARGET: ZodTarget = { importSource: CONSTANTS.DEFAULT_ZOD_IMPORT, api: "v3" };
+
+/**
+ * Renders a schema declaration, e.g. `export const heroSchema = z.object({ ... });`
+ *
+ * @remarks
+ * A recursive schema is preceded by the declaration of its type, e.g. `export type SectionBlok = { ... };`, which
+ * annotates it. The schemas it references are typed with `z.infer`.
+ */
+export function renderSchemaDeclaration(declaration: SchemaDeclaration, target: ZodTarget): string {
+  const annotationType = declaration.recursiveType ?? declaration.annotationType;
+  const annotation = annotationType ? `: ${SCHEMA_TYPE[target.api]}<${annotationType}>` : "";
+  const schema = renderSchemaNode(declaration.schema, target);
+  const schemaDeclaration = `export const ${declaration.name}${annotation} = ${schema};\n`;
+
+  if (!declaration.recursiveType) {
+    return schemaDeclaration;
+  }
+
+  const type = renderInferredTypeNode(declaration.schema, (schemaName) => `z.infer<typeof ${schemaName}>`);
+  return `export type ${declaration.recursiveType} = ${type};\n${schemaDeclaration}`;
+}
+
+/**
+ * Renders a schema node as a Zod expression using the API of the target
+ *
+ * @param node - The schema to render
+ * @param target - The Zod API to render the schema with
+ * @param indent - Indentation of the line the expression starts on, used for multi-line objects
+ */
+export function renderSchemaNode(node: SchemaNode, target: ZodTarget, indent: string = ""): string {
+  const rendered = renderWithoutDescription(node, target, indent);
+
+  if (node.description === undefined) {
+    return rendered;
+  }
+
+  return target.api === "mini"
+    ? `${rendered}.check(z.describe(${JSON.stringify(node.description)}))`
+    : `${rendered}.describe(${JSON.stringify(node.description)})`;
+}
+
+/** Type of a schema, as used to annotate declarations */
+const SCHEMA_TYPE: Record<ZodApi, string> = {
+  v3: "z.ZodSchema",
+  v4: "z.ZodType",
+  mini: "z.ZodMiniType",
+};
+
+function renderWithoutDescription(node: SchemaNode, target: ZodTarget, indent: string): string {
+  const api = target.api;
+  const render = (child: SchemaNode) => renderSchemaNode(child, target, indent);
+
+  switch (node.kind) {
+    case "string": {
+      const checks: Check[] = [];
+      if (node.minLength !== undefined) {
+        checks.push({ method: "min", mini: "minLength", arg: node.minLength });
+      }
+      if (node.maxLength !== undefined) {
+        checks.push({ method: "max", mini: "maxLength", arg: node.maxLength });
+      }
+      if (node.regex !== undefined) {
+        checks.push({ method: "regex", mini: "regex", arg: `new RegExp(${JSON.stringify(node.regex)})` });
+      }
+
+      const base = node.format ? renderStringFormat(node.format, api) : "z.string()";
+      return applyChecks(base, checks, api);
+    }
+
+    case "number": {
+      const checks: Check[] = [];
+      if (node.int && api === "v3") {
+        checks.push({ method: "int", mini: "int" });
+      }
+      if (node.min !== undefined) {
+        checks.push({ method: "min", mini: "gte", arg: node.min });
+      }
+      if (node.max !== undefined) {
+        checks.push({ method: "max", mini: "lte", arg: node.max });
+      }
+      if (node.multipleOf !== undefined) {
+        checks.push({ method: "multipleOf", mini: "multipleOf", arg: node.multipleOf });
+      }
+
+      const base = node.int && api !== "v3" ? "z.int()" : "z.number()";
+      return applyChecks(base, checks, api);
+    }
+
+    case "boolean":
+    case "null":
+    case "undefined":
+    case "unknown":
+      return `z.${node.kind}()`;
+
+    case "any":
+      return node.comment ? `z.any() /* ${node.comment} */` : "z.any()";
+
+    case "literal":
+      return `z.literal(${JSON.stringify(node.value)})`;
+
+    case "enum":
+      return `z.enum([${node.values.map((value) => JSON.stringify(value)).join(", ")}])`;
+
+    case "array": {
+      const checks: Check[] = [];
+      if (node.minLength !== undefined) {
+        checks.push({ method: "min", mini: "minLength", arg: node.minLength });
+      }
+      if (node.maxLength !== undefined) {
+        checks.push({ method: "max", mini: "maxLength", arg: node.maxLength });
+      }
+      return applyChecks(`z.array(${render(node.items)})`, checks, api);
+    }
+
+    case "object": {
+      const shape = renderShape(node.properties, target, indent);
+      if (!node.loose) {
+        return `z.object(${shape})`;
+      }
+      return api === "v3" ? `z.object(${shape}).passthrough()` : `z.looseObject(${shape})`;
+    }
+
+    case "extend": {
+      const shape = renderShape(node.properties, target, indent);
+      return api === "mini" ? `z.extend(${render(node.base)}, ${shape})` : `${render(node.base)}.extend(${shape})`;
+    }
+
+    case "record":
+      return api === "v3" ? `z.record(${render(node.values)})` : `z.record(z.string(), ${render(node.values)})`;
+
+    case "union":
+      return `z.union([${node.options.map(render).join(", ")}])`;
+
+    case "discriminatedUnion":
+      return `z.discriminatedUnion(${JSON.stringify(node.discriminator)}, [${node.options.map(render).join(", ")}])`;
+
+    case "intersection":
+      return `z.intersection(${render(node.left)}, ${render(node.right)})`;
+
+    case "optional":
+    case "nullable":
+      return api === "mini" ? `z.${node.kind}(${render(node.inner)})` : `${render(node.inner)}.${node.kind}()`;
+
+    case "lazy":
+      return `z.lazy(() => ${render(node.inner)})`;
+
+    case "ref":
+      return node.name;
+
+    case "raw":
+      return node.expression;
+  }
+}
+
+/**
+ * A refinement, rendered as a method call (`.max(10)`) with the classic APIs and as a check (`z.maxLength(10)`) with
+ * the mini API
+ */
+interface Check {
+  method: string;
+  mini: string;
+  arg?: string | number;
+}
+
+function applyChecks(base: string, checks: Check[], api: ZodApi): string {
+  if (checks.length === 0) {
+    return base;
+  }
+
+  const renderArg = (check: Check) => (check.arg === undefined ? "" : String(check.arg));
+
+  if (api === "mini") {
+    return `${base}.check(${checks.map((check) => `z.${check.mini}(${renderArg(check)})`).join(", ")})`;
+  }
+
+  return base + checks.map((check) => `.${check.method}(${renderArg(check)})`).join("");
+}
+
+function renderStringFormat(format: "datetime" | "uuid" | "url" | "email", api: ZodApi): string {
+  if (api === "v3") {
+    return `z.string().${format}()`;
+  }
+  return format === "datetime" ? "z.iso.datetime()" : `z.${format}()`;
+}
+
+function renderShape(properties: SchemaProperty[], target: ZodTarget, indent: string): string {
+  if (properties.length === 0) {
+    return "{}";
+  }
+
+  const propertyIndent = indent + "  ";
+  const lines = properties.map(
+    ({ name, schema }) => `${propertyIndent}${renderPropertyName(name)}: ${renderSchemaNode(schema, target, propertyIndent)},`
+  );
+
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+function renderPropertyName(name: string): string {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
@@ -1,82 +1,87 @@
-import path from "path";
-import { LogLevel, Tracer } from "./statics/Tracer";
 import * as CONSTANTS from "./constants";
-import { Command } from "commander";
-import { validateCLIOptions, validatePaths } from "./validation";
-import { processStoryblokInterfaces } from "./functions/interfaceProcessor";
-import { discoverComponentFiles, buildDependencyGraph, convertComponents } from "./functions/componentProcessor";
-import { generateFinalOutput } from "./functions/outputGenerator";
-import { handleError } from "./functions/errorHandler";
-
-const program = new Command();
-program
-  .name("storyblok-to-zod")
-  .description("Generates a Zod schema from your Storyblok components")
-  .requiredOption("-s, --space <storyblokSpaceId>", "Storyblok space ID")
-  .option("-o, --output <filePath>", "output to file")
-  .option("-f, --folder <folderPath>", "path to the folder containing Storyblok components", ".storyblok")
-  .option("-v, --verbose", "show verbose information")
-  .option("-d, --debug", "show debug information")
-  .option("--no-extends-array", "will not automatically convert StoryblokMultiasset's interface definition");
-
-program.parse(process.argv);
+import { LogLevel, Tracer } from "./context/Tracer";
+import type { Diagnostic } from "./context/Tracer";
+import { GenerationContext } from "./context/GenerationContext";
+import type { FieldPluginConfig, OutputFormat } from "./types";
+import { validateCLIOptions } from "./validation";
+import { convertSpace } from "./functions/conversionPipeline";
+import { formatOutput } from "./functions/outputGenerator";
+
+export { LogLevel } from "./context/Tracer";
+export type { Diagnostic } from "./context/Tracer";
+export type { FieldPluginConfig, FieldPluginGenerator, OutputFormat } from "./types";
+export { FileOperationError, ValidationError } from "./validation";
 
 /**
- * Main execution function with comprehensive error handling
+ * Options of generateZodSchemas(), mirroring the CLI options
  */
-async function main(): Promise<void> {
-  try {
-    const rawOptions = program.opts();
-    const options = validateCLIOptions(rawOptions);
-
-    const logLevel = options.debug ? LogLevel.DEBUG : options.verbose ? LogLevel.VERBOSE : LogLevel.INFO;
-    Tracer.logLevel = logLevel;
-
-    if (logLevel >= LogLevel.VERBOSE) {
-      Tracer.log(LogLevel.VERBOSE, `Log level set to ${LogLevel[logLevel]}`);
-    }
-
-    Tracer.log(LogLevel.VERBOSE, `Starting conversion for space: ${options.space}`);
-    Tracer.log(LogLevel.DEBUG, `Options: ${JSON.stringify(options, null, 2)}`);
-
-    // Validate all required paths
-    await validatePaths(options);
-
-    // Initialize paths
-    const folderPath = path.resolve(options.folder);
-    const jsonPath = path.join(folderPath, "components", options.space);
-    const pathToSbInterfaceFile = path.join(folderPath, "types", CONSTANTS.SB_INTERFACES_FILE);
-
-    Tracer.log(
-      LogLevel.DEBUG,
-      `Resolved paths - folder: ${folderPath}, json: ${jsonPath}, types: ${pathToSbInterfaceFile}`
-    );
-
-    // Process Storyblok interface file
-    await processStoryblokInterfaces(pathToSbInterfaceFile, options);
-
-    // Process component files
-    const componentFiles = await discoverComponentFiles(jsonPath);
-
-    if (componentFiles.length === 0) {
-      Tracer.log(LogLevel.WARN, `No component files found in ${jsonPath}`);
-      return;
-    }
+export interface GenerateZodSchemasOptions {
+  /** Storyblok space ID */
+  space: string;
+  /** Path to the folder containing the files pulled by Storyblok's CLI, defaults to `.storyblok` */
+  folder?: string;
+  /** Whether to automatically convert `StoryblokMultiasset`'s interface definition, defaults to `true` */
+  extendsArray?: boolean;
+  /** Whether to export the TypeScript types inferred from the schemas, defaults to `true` */
+  types?: boolean;
+  /** Module to import Zod from, defaults to `astro/zod` */
+  zodImport?: string;
+  /** Major version of Zod to target, defaults to the version of the module */
+  zodVersion?: number;
+  /** Format of the generated code: `zod` (default), `json-schema` for a JSON Schema document or `typescript` */
+  format?: OutputFormat;
+  /** Components not to generate schemas for */
+  exclude?: string[];
+  /** Locales of the `<field>__i18n__<locale>` keys added to translatable fields */
+  locales?: string[];
+  /** Relations (`<component>.<field>`) resolved to the stories they point to when fetching stories */
+  resolveRelations?: string[];
+  /** Zod expressions replacing the schemas of fields, keyed by `<component>.<field>` */
+  fields?: Record<string, string>;
+  /** Schemas of the fields of custom field type plugins, keyed by plugin name */
+  plugins?: Record<string, FieldPluginConfig>;
+  /** Level of the messages printed to the console. Nothing is printed by default. */
+  logLevel?: LogLevel;
+}
 
-    Tracer.log(LogLevel.VERBOSE, `Found ${componentFiles.length} component JSON files.`);
+export interface GenerateZodSchemasResult {
+  /** The generated module (or JSON Schema document), or an empty string if there is no component */
+  code: string;
+  /** Warnings and errors reported while generating the schemas */
+  diagnostics: Diagnostic[];
+}
 
-    // Build dependency graph and sort components
-    const sortedComponents = await buildDependencyGraph(componentFiles, jsonPath);
+/**
+ * Generates the Zod schemas of a Storyblok space, without writing any file
+ *
+ * @remarks
+ * Each call runs with its own context, so it can be called repeatedly in the same process. Problems that do not
+ * prevent the generation (e.g. an unknown field type) are returned as diagnostics.
+ *
+ * @example
+ * ```typescript
+ * const { code, diagnostics } = await generateZodSchemas({ space: "123456", zodImport: "zod" });
+ * ```
+ *
+ * @throws {ValidationError} When the options or the pulled files are invalid
+ * @throws {FileOperationError} When the pulled files cannot be read
+ */
+export async function generateZodSchemas(options: GenerateZodSchemasOptions): Promise<GenerateZodSchemasResult> {
+  const validatedOptions = validateCLIOptions({
+    ...options,
+    folder: options.folder ?? CONSTANTS.DEFAULT_FOLDER,
+    extendsArray: options.extendsArray ?? true,
+    types: options.types ?? true,
+  });
+
+  const tracer = new Tracer(options.logLevel, options.logLevel !== undefined);
+  const context = new GenerationContext(validatedOptions, tracer);
+
+  if (!(await convertSpace(context))) {
+    return { code: "", diagnostics: tracer.diagnostics };
+  }
 
-    // Convert components
-    await convertComponents(sortedComponents, jsonPath);
+  const code = formatOutput(context);
 
-    // Generate final output
-    await generateFinalOutput(options.output);
-  } catch (error) {
-    await handleError(error);
-  }
+  return { code, diagnostics: tracer.diagnostics };
 }
-
-// Execute main function
-main().catch(handleError);
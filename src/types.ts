@@ -0,0 +1,187 @@
+import type { Components } from "@storyblok/management-api-client";
+
+/**
+ * A single choice of an 'option' or 'options' field
+ */
+export interface ComponentSchemaFieldOption {
+  _uid?: string;
+  name?: string;
+  value?: string | number;
+}
+
+/**
+ * A Storyblok component schema field as found in pulled component files.
+ *
+ * @remarks
+ * The Management API client's typings only describe a subset of the properties Storyblok actually stores on a field
+ * (e.g. `source` is limited to a few values and option values are typed as strings only), so this type widens them.
+ */
+export type ComponentSchemaField = Omit<Components.ComponentSchemaField, "options" | "source"> & {
+  options?: ComponentSchemaFieldOption[];
+  source?: string;
+  /** Maximum length of text and textarea fields */
+  max_length?: number | string;
+  /** Minimum value of number fields */
+  min_value?: number | string;
+  /** Maximum value of number fields */
+  max_value?: number | string;
+  /** Number of decimals allowed in number fields */
+  decimals?: number | string;
+  /** Step of number fields */
+  steps?: number | string;
+  /** Minimum number of selected choices of options fields */
+  min_options?: number | string;
+  /** Maximum number of selected choices of options fields */
+  max_options?: number | string;
+  /** Kind of restriction applied to bloks fields: "components" (default), "groups" or "tags" */
+  restrict_type?: string;
+  /** IDs of the tags whose components are allowed in bloks fields */
+  component_tag_whitelist?: (number | string)[];
+  /** Whether multilink fields allow email links */
+  email_link_type?: boolean;
+  /** Whether multilink fields allow asset links */
+  asset_link_type?: boolean;
+  /** Whether multilink fields allow an anchor on story links */
+  show_anchor?: boolean;
+  /** Whether multilink fields allow opening the link in a new tab */
+  allow_target_blank?: boolean;
+  /** Name of the plugin of custom fields */
+  field_type?: string;
+  /** Content types of the stories that can be chosen in option fields sourced from stories */
+  filter_content_type?: string[] | string;
+};
+
+/**
+ * A property of an object schema
+ */
+export interface SchemaProperty {
+  name: string;
+  schema: SchemaNode;
+}
+
+/**
+ * Intermediate representation of a generated schema, independent from the Zod API it is rendered with
+ */
+export type SchemaNode = (
+  | {
+      kind: "string";
+      format?: "datetime" | "uuid" | "url" | "email";
+      minLength?: number;
+      maxLength?: number;
+      regex?: string;
+    }
+  | { kind: "number"; int?: boolean; min?: number; max?: number; multipleOf?: number }
+  | { kind: "boolean" }
+  | { kind: "null" }
+  | { kind: "undefined" }
+  | { kind: "unknown" }
+  | { kind: "any"; comment?: string }
+  | { kind: "literal"; value: string | number | boolean }
+  | { kind: "enum"; values: string[] }
+  | { kind: "array"; items: SchemaNode; minLength?: number; maxLength?: number }
+  | { kind: "object"; properties: SchemaProperty[]; loose?: boolean }
+  | { kind: "extend"; base: SchemaNode; properties: SchemaProperty[] }
+  | { kind: "record"; values: SchemaNode }
+  | { kind: "union"; options: SchemaNode[] }
+  | { kind: "discriminatedUnion"; discriminator: string; options: SchemaNode[] }
+  | { kind: "intersection"; left: SchemaNode; right: SchemaNode }
+  | { kind: "optional"; inner: SchemaNode }
+  | { kind: "nullable"; inner: SchemaNode }
+  | { kind: "lazy"; inner: SchemaNode }
+  /** Reference to another generated schema by name */
+  | { kind: "ref"; name: string }
+  /** A Zod expression that is emitted verbatim */
+  | { kind: "raw"; expression: string }
+) & {
+  description?: string;
+  /** Interface of Storyblok's interface file the schema stands for, which the TypeScript output uses instead */
+  nativeType?: string;
+};
+
+/**
+ * A named schema of the generated output, e.g. `export const heroSchema = z.object({ ... });`
+ */
+export interface SchemaDeclaration {
+  name: string;
+  schema: SchemaNode;
+  /** Type the schema is explicitly annotated with, e.g. `StoryblokRichtext` for `z.ZodSchema<StoryblokRichtext>` */
+  annotationType?: string;
+  /**
+   * Name of a type declared from the schema itself and annotating it, e.g. `SectionBlok`, for recursive schemas whose
+   * type cannot be inferred
+   */
+  recursiveType?: string;
+}
+
+/**
+ * Flavour of the Zod API the schemas are rendered with
+ */
+export type ZodApi = "v3" | "v4" | "mini";
+
+/**
+ * Zod module and API the generated code targets
+ */
+export interface ZodTarget {
+  importSource: string;
+  api: ZodApi;
+}
+
+/**
+ * Format of the generated output: Zod schemas, a JSON Schema document, or TypeScript declarations
+ */
+export type OutputFormat = "zod" | "json-schema" | "typescript";
+
+/**
+ * Function exported by default by the module of a custom field type plugin
+ *
+ * @returns The Zod expression of the given field of the plugin, e.g. `z.object({ color: z.string() })`
+ */
+export type FieldPluginGenerator = (field: ComponentSchemaField) => string;
+
+/**
+ * Schema of the fields of a custom field type plugin: a Zod expression, or the path of a module whose default export
+ * is a FieldPluginGenerator
+ */
+export type FieldPluginConfig = string | { module: string };
+
+/**
+ * A custom field type plugin, as resolved from the configuration
+ */
+export type FieldPlugin = { kind: "expression"; schema: SchemaNode } | { kind: "module"; modulePath: string };
+
+/**
+ * Content of a `storyblok-to-zod.config.{json,ts,mjs}` file
+ *
+ * @remarks
+ * Every CLI option can be set (in camelCase), options passed on the command line taking precedence.
+ */
+export interface StoryblokToZodConfig {
+  space?: string;
+  folder?: string;
+  output?: string;
+  outDir?: string;
+  verbose?: boolean;
+  debug?: boolean;
+  extendsArray?: boolean;
+  types?: boolean;
+  zodImport?: string;
+  zodVersion?: number;
+  format?: OutputFormat;
+  fetch?: boolean;
+  region?: string;
+  apiBaseUrl?: string;
+  /** Names of the components not to generate schemas for, e.g. `["legacy-banner"]` */
+  exclude?: string[];
+  /** Locales of the translations of translatable fields, e.g. `["en", "de"]` */
+  locales?: string[];
+  /** Relations resolved to the stories they point to when fetching stories, e.g. `["article.author"]` */
+  resolveRelations?: string[];
+  /** Zod expressions replacing the schema of fields, keyed by `<component>.<field>`, e.g. `"hero.video_url"` */
+  fields?: Record<string, string>;
+  /**
+   * Schemas of the fields of custom field type plugins, keyed by plugin name, e.g.
+   * `{ "sb-colorpicker": "z.object({ color: z.string() })", "product-picker": { module: "./product-picker.mjs" } }`.
+   * Module paths are relative to the configuration file.
+   */
+  plugins?: Record<string, FieldPluginConfig>;
+}
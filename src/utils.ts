@@ -1,6 +1,6 @@
 import fs from "fs/promises";
 import path from "path";
-import { LogLevel, Tracer } from "./statics/Tracer";
+import { LogLevel, Tracer } from "./context/Tracer";
 import { FileOperationError, ValidationError } from "./validation";
 
 export function kebabToCamelCase(text: string): string {
@@ -15,10 +15,27 @@ export function pascalToCamelCase(text: string): string {
   return text.charAt(0).toLowerCase() + text.slice(1);
 }
 
+/**
+ * Converts any text to a camelCase identifier, e.g. "2024--summer_colors" -> "_2024SummerColors"
+ *
+ * @remarks
+ * Characters that are not allowed in an identifier separate words, and an identifier starting with a digit is prefixed
+ * with an underscore.
+ */
+export function toCamelCaseIdentifier(text: string): string {
+  const identifier = text
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word, index) => (index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join("");
+
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
+
 /**
  * Safely writes content to a file with directory creation
  */
-export async function safeWriteFile(filePath: string, content: string): Promise<void> {
+export async function safeWriteFile(filePath: string, content: string, tracer: Tracer): Promise<void> {
   try {
     const resolvedPath = path.resolve(filePath);
     const directory = path.dirname(resolvedPath);
@@ -29,7 +46,7 @@ export async function safeWriteFile(filePath: string, content: string): Promise<
     // Write file
     await fs.writeFile(resolvedPath, content, "utf-8");
 
-    Tracer.log(LogLevel.VERBOSE, `Successfully wrote file: ${resolvedPath}`);
+    tracer.log(LogLevel.VERBOSE, `Successfully wrote file: ${resolvedPath}`);
   } catch (error) {
     if ((error as any).code === "EACCES") {
       throw new FileOperationError(`Permission denied`, filePath, "write");
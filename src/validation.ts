@@ -1,7 +1,16 @@
 import fs from "fs/promises";
 import path from "path";
-import type { Components } from "@storyblok/management-api-client";
-import { LogLevel, Tracer } from "./statics/Tracer";
+import type {
+  ComponentSchemaField,
+  FieldPlugin,
+  OutputFormat,
+  SchemaNode,
+  StoryblokToZodConfig,
+  ZodTarget,
+} from "./types";
+import * as CONSTANTS from "./constants";
+import { LogLevel, Tracer } from "./context/Tracer";
+import { parseZodExpressionText } from "./functions/zodExpressionParser";
 
 /**
  * Custom error class for validation errors
@@ -30,6 +39,18 @@ export function isNonEmptyString(value: unknown): value is string {
   return typeof value === "string" && value.trim().length > 0;
 }
 
+/**
+ * Checks if a value is a valid absolute URL
+ */
+function isValidUrl(value: unknown): boolean {
+  try {
+    new URL(String(value));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Type guard to check if a value is a valid directory path
  */
@@ -50,9 +71,32 @@ export interface CLIOptions {
   space: string;
   folder: string;
   output?: string;
+  outDir?: string;
   verbose?: boolean;
   debug?: boolean;
+  /** Compare the generated schemas with the output file instead of writing it */
+  check?: boolean;
+  /** Fetch the components and datasources with the Management API instead of using the pulled ones */
+  fetch?: boolean;
+  /** Region of the Management API, detected from the space ID by default */
+  region?: string;
+  /** URL of the Management API, overriding the region */
+  apiBaseUrl?: string;
   extendsArray?: boolean;
+  types?: boolean;
+  zodTarget: ZodTarget;
+  /** Format of the generated output */
+  format: OutputFormat;
+  /** Components not to generate schemas for */
+  excludedComponents: string[];
+  /** Locales of the `<field>__i18n__<locale>` keys added for translatable fields */
+  locales: string[];
+  /** Relations resolved to the stories they point to, as `<component>.<field>` */
+  resolvedRelations: string[];
+  /** Schemas replacing the ones of fields, keyed by `<component>.<field>` */
+  fieldOverrides: Map<string, SchemaNode>;
+  /** Custom field type plugins, keyed by plugin name */
+  fieldPlugins: Map<string, FieldPlugin>;
 }
 
 export function validateCLIOptions(options: any): CLIOptions {
@@ -66,24 +110,298 @@ export function validateCLIOptions(options: any): CLIOptions {
     errors.push("Folder path is required and must be a non-empty string");
   }
 
-  if (errors.length > 0) {
-    throw new ValidationError(`Invalid CLI options: ${errors.join(", ")}`, { options });
+  if (options.output !== undefined && options.outDir !== undefined) {
+    errors.push("Options --output and --out-dir cannot be used together");
+  }
+
+  if (options.check && !isNonEmptyString(options.output)) {
+    errors.push("Option --check requires --output, the file to compare the generated schemas with");
+  }
+
+  if (options.outDir !== undefined && !isNonEmptyString(options.outDir)) {
+    errors.push("Output directory must be a non-empty string");
+  }
+
+  if (options.region !== undefined && !CONSTANTS.SUPPORTED_REGIONS.includes(options.region)) {
+    errors.push(`Region must be one of ${CONSTANTS.SUPPORTED_REGIONS.join(", ")}, got '${options.region}'`);
+  }
+
+  if (options.apiBaseUrl !== undefined && !isValidUrl(options.apiBaseUrl)) {
+    errors.push(`API base URL must be a valid URL, got '${options.apiBaseUrl}'`);
+  }
+
+  const format = options.format ?? CONSTANTS.DEFAULT_OUTPUT_FORMAT;
+  if (!CONSTANTS.SUPPORTED_OUTPUT_FORMATS.includes(format)) {
+    errors.push(`Format must be one of ${CONSTANTS.SUPPORTED_OUTPUT_FORMATS.join(", ")}, got '${format}'`);
+  } else if (format !== "zod" && options.outDir !== undefined) {
+    errors.push(`Option --out-dir cannot be used with the '${format}' format`);
+  }
+
+  const zodVersion = options.zodVersion === undefined ? undefined : Number(options.zodVersion);
+  let zodTarget: ZodTarget | undefined;
+  try {
+    zodTarget = resolveZodTarget(options.zodImport ?? CONSTANTS.DEFAULT_ZOD_IMPORT, zodVersion);
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : "Invalid Zod target");
+  }
+
+  const excludedComponents = options.exclude ?? [];
+  if (!Array.isArray(excludedComponents) || !excludedComponents.every(isNonEmptyString)) {
+    errors.push("Excluded components must be a list of component names");
+  }
+
+  // Given as a comma separated list on the command line, or as a list in the configuration file
+  const locales: unknown[] =
+    typeof options.locales === "string"
+      ? options.locales.split(",").map((locale: string) => locale.trim())
+      : options.locales ?? [];
+  if (!Array.isArray(locales) || !locales.every((locale) => typeof locale === "string" && /^[\w-]+$/.test(locale))) {
+    errors.push(`Locales must be a list of locale codes such as 'en,de', got ${JSON.stringify(options.locales)}`);
+  }
+
+  const resolvedRelations: unknown[] =
+    typeof options.resolveRelations === "string"
+      ? options.resolveRelations.split(",").map((relation: string) => relation.trim())
+      : options.resolveRelations ?? [];
+  if (
+    !Array.isArray(resolvedRelations) ||
+    !resolvedRelations.every((relation) => typeof relation === "string" && /^[^.]+\.[^.]+$/.test(relation))
+  ) {
+    errors.push(
+      `Resolved relations must be a list of '<component>.<field>', got ${JSON.stringify(options.resolveRelations)}`
+    );
+  }
+
+  const fieldOverrides = new Map<string, SchemaNode>();
+  for (const [fieldPath, expression] of Object.entries<unknown>(options.fields ?? {})) {
+    if (!/^[^.]+\.[^.]+$/.test(fieldPath)) {
+      errors.push(`Field override '${fieldPath}' must be named '<component>.<field>'`);
+      continue;
+    }
+
+    const schema = isNonEmptyString(expression) ? parseZodExpressionText(expression) : undefined;
+    if (!schema) {
+      errors.push(
+        `Field override '${fieldPath}' must be a valid Zod expression calling 'z', got ${JSON.stringify(expression)}`
+      );
+      continue;
+    }
+
+    fieldOverrides.set(fieldPath, schema);
+  }
+
+  const fieldPlugins = new Map<string, FieldPlugin>();
+  for (const [pluginName, plugin] of Object.entries<unknown>(options.plugins ?? {})) {
+    if (isNonEmptyString(plugin)) {
+      const schema = parseZodExpressionText(plugin);
+      if (schema) {
+        fieldPlugins.set(pluginName, { kind: "expression", schema });
+        continue;
+      }
+    } else if (isPluginModuleConfig(plugin)) {
+      fieldPlugins.set(pluginName, { kind: "module", modulePath: path.resolve(plugin.module) });
+      continue;
+    }
+
+    errors.push(
+      `Plugin '${pluginName}' must be a valid Zod expression calling 'z' or an object with a module path, ` +
+        `got ${JSON.stringify(plugin)}`
+    );
+  }
+
+  if (errors.length > 0 || !zodTarget) {
+    throw new ValidationError(`Invalid options: ${errors.join(", ")}`, { options });
   }
 
   return {
     space: options.space,
     folder: options.folder,
     output: options.output,
+    outDir: options.outDir,
     verbose: Boolean(options.verbose),
     debug: Boolean(options.debug),
+    check: Boolean(options.check),
+    fetch: Boolean(options.fetch),
+    region: options.region,
+    apiBaseUrl: options.apiBaseUrl,
     extendsArray: Boolean(options.extendsArray),
+    types: Boolean(options.types),
+    zodTarget,
+    format,
+    excludedComponents,
+    locales: locales as string[],
+    resolvedRelations: resolvedRelations as string[],
+    fieldOverrides,
+    fieldPlugins,
   };
 }
 
+/**
+ * Options of the mock command
+ */
+export interface MockOptions {
+  /** Seed of the generated values, the same seed always giving the same mocks */
+  seed: string;
+  /** Nesting depth of bloks beyond which only required properties are generated */
+  depth: number;
+  /** Folder the fixtures are written to */
+  fixturesDir: string;
+}
+
+export function validateMockOptions(options: any): MockOptions {
+  const errors: string[] = [];
+
+  const seed = options.seed ?? CONSTANTS.DEFAULT_MOCK_SEED;
+  if (!isNonEmptyString(seed)) {
+    errors.push("Seed must be a non-empty string");
+  }
+
+  const depth = options.depth === undefined ? CONSTANTS.DEFAULT_MOCK_DEPTH : Number(options.depth);
+  if (!Number.isInteger(depth) || depth < 0) {
+    errors.push(`Depth must be a non-negative integer, got '${options.depth}'`);
+  }
+
+  const fixturesDir = options.fixturesDir ?? CONSTANTS.DEFAULT_FIXTURES_FOLDER;
+  if (!isNonEmptyString(fixturesDir)) {
+    errors.push("Fixtures folder must be a non-empty string");
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid mock options: ${errors.join(", ")}`, { options });
+  }
+
+  return { seed, depth, fixturesDir };
+}
+
+function isPluginModuleConfig(value: unknown): value is { module: string } {
+  return !!value && typeof value === "object" && isNonEmptyString((value as { module?: unknown }).module);
+}
+
+type ConfigSettingType = "string" | "boolean" | "number" | "list" | "map" | "plugins";
+
+/** Expected type of each setting of the configuration file */
+const CONFIG_SETTING_TYPES: Record<keyof StoryblokToZodConfig, ConfigSettingType> = {
+  space: "string",
+  folder: "string",
+  output: "string",
+  outDir: "string",
+  verbose: "boolean",
+  debug: "boolean",
+  extendsArray: "boolean",
+  types: "boolean",
+  zodImport: "string",
+  zodVersion: "number",
+  format: "string",
+  fetch: "boolean",
+  region: "string",
+  apiBaseUrl: "string",
+  exclude: "list",
+  locales: "list",
+  resolveRelations: "list",
+  fields: "map",
+  plugins: "plugins",
+};
+
+const CONFIG_SETTING_TYPE_DESCRIPTIONS: Record<ConfigSettingType, string> = {
+  string: "a string",
+  boolean: "a boolean",
+  number: "a number",
+  list: "a list of strings",
+  map: "an object of strings",
+  plugins: "an object of Zod expressions or objects with a module path",
+};
+
+/**
+ * Validates the content of a configuration file
+ *
+ * @throws {ValidationError} When the configuration has unknown settings or settings of the wrong type
+ */
+export function validateConfig(data: unknown, filePath: string): StoryblokToZodConfig {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new ValidationError(`Invalid configuration file '${filePath}': expected an object`, { filePath });
+  }
+
+  const errors: string[] = [];
+
+  for (const [setting, value] of Object.entries(data)) {
+    const expectedType = CONFIG_SETTING_TYPES[setting as keyof StoryblokToZodConfig];
+
+    if (!expectedType) {
+      errors.push(`unknown setting '${setting}'`);
+      continue;
+    }
+
+    if (!hasConfigSettingType(value, expectedType)) {
+      errors.push(`'${setting}' must be ${CONFIG_SETTING_TYPE_DESCRIPTIONS[expectedType]}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid configuration file '${filePath}': ${errors.join(", ")}`, { filePath });
+  }
+
+  return data as StoryblokToZodConfig;
+}
+
+function hasConfigSettingType(value: unknown, type: ConfigSettingType): boolean {
+  switch (type) {
+    case "list":
+      return Array.isArray(value) && value.every((item) => typeof item === "string");
+    case "map":
+      return (
+        !!value &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        Object.values(value).every((item) => typeof item === "string")
+      );
+    case "plugins":
+      return (
+        !!value &&
+        typeof value === "object" &&
+        !Array.isArray(value) &&
+        Object.values(value).every((item) => typeof item === "string" || isPluginModuleConfig(item))
+      );
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Resolves the Zod API to target from the import source and the optional major version
+ *
+ * @remarks
+ * `zod/v4` and `zod/mini` always use the v4 API. `astro/zod` defaults to v3 (the version Astro ships) and `zod`
+ * defaults to v4 (the current major version); both can be overridden with the major version.
+ *
+ * @throws {ValidationError} When the import source is not supported or conflicts with the version
+ */
+export function resolveZodTarget(importSource: string, majorVersion?: number): ZodTarget {
+  if (!CONSTANTS.SUPPORTED_ZOD_IMPORTS.includes(importSource)) {
+    throw new ValidationError(
+      `Unsupported Zod import '${importSource}'. Expected one of: ${CONSTANTS.SUPPORTED_ZOD_IMPORTS.join(", ")}`,
+      { importSource }
+    );
+  }
+
+  if (majorVersion !== undefined && majorVersion !== 3 && majorVersion !== 4) {
+    throw new ValidationError(`Unsupported Zod version '${majorVersion}'. Expected 3 or 4`, { majorVersion });
+  }
+
+  if (importSource === "zod/v4" || importSource === "zod/mini") {
+    if (majorVersion === 3) {
+      throw new ValidationError(`Zod import '${importSource}' requires Zod version 4`, { importSource, majorVersion });
+    }
+    return { importSource, api: importSource === "zod/mini" ? "mini" : "v4" };
+  }
+
+  const defaultVersion = importSource === "astro/zod" ? 3 : 4;
+  return { importSource, api: (majorVersion ?? defaultVersion) === 3 ? "v3" : "v4" };
+}
+
 /**
  * Validates a Storyblok component schema field
  */
-export function isValidComponentSchemaField(value: unknown): value is Components.ComponentSchemaField {
+export function isValidComponentSchemaField(value: unknown): value is ComponentSchemaField {
   if (!value || typeof value !== "object") {
     return false;
   }
@@ -96,10 +414,10 @@ export function isValidComponentSchemaField(value: unknown): value is Components
  * Validates component JSON data structure
  */
 export interface ComponentData {
-  schema: Record<string, Components.ComponentSchemaField>;
+  schema: Record<string, ComponentSchemaField>;
 }
 
-export function validateComponentData(data: unknown, componentName: string): ComponentData {
+export function validateComponentData(data: unknown, componentName: string, tracer: Tracer): ComponentData {
   if (!data || typeof data !== "object") {
     throw new ValidationError(`Invalid JSON data for component '${componentName}': expected object`, {
       componentName,
@@ -118,11 +436,11 @@ export function validateComponentData(data: unknown, componentName: string): Com
   }
 
   const schema = jsonData.schema as Record<string, any>;
-  const validatedSchema: Record<string, Components.ComponentSchemaField> = {};
+  const validatedSchema: Record<string, ComponentSchemaField> = {};
 
   for (const [fieldName, fieldValue] of Object.entries(schema)) {
     if (!isValidComponentSchemaField(fieldValue)) {
-      Tracer.log(
+      tracer.log(
         LogLevel.WARN,
         `Invalid field '${fieldName}' in component '${componentName}': ${JSON.stringify(fieldValue)}`
       );
@@ -132,7 +450,7 @@ export function validateComponentData(data: unknown, componentName: string): Com
   }
 
   if (Object.keys(validatedSchema).length === 0) {
-    Tracer.log(LogLevel.WARN, `Component '${componentName}' has an empty schema`);
+    tracer.log(LogLevel.WARN, `Component '${componentName}' has an empty schema`);
   }
 
   return { schema: validatedSchema };